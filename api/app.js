@@ -0,0 +1,128 @@
+// SHARED EXPRESS APP FACTORY
+// Used by both server.js (local / container) and api/index.js (Vercel).
+// Entry points only differ in runtime options, never in route behavior.
+const express = require('express');
+const cors = require('cors');
+const path = require('path');
+const dotenv = require('dotenv');
+
+dotenv.config();
+
+const { getImageProvider } = require('./providers/index.js');
+const { getObjectStore } = require('./objectStore/index.js');
+const { getJobStore } = require('./jobStore/index.js');
+const { getCounterStore } = require('./counterStore/index.js');
+const { createGuestAccess } = require('./guests.js');
+const { createRateLimiter } = require('./rateLimit.js');
+const { createJobWorker, dispatchRemoteWorker } = require('./jobWorker.js');
+const { createGenerateRouter } = require('./routes/generate.js');
+const { createCheckoutRouter } = require('./routes/checkout.js');
+const { createStripeWebhookRouter } = require('./routes/stripeWebhook.js');
+const { createImagesRouter } = require('./routes/images.js');
+const { createJobsRouter } = require('./routes/jobs.js');
+const { createAdminRouter } = require('./routes/admin.js');
+const { createGuestsRouter } = require('./routes/guests.js');
+const { createCreditsRouter } = require('./routes/credits.js');
+
+const DEFAULT_OPTIONS = {
+  bodyLimit: '4.5mb',    // Vercel's hard request limit
+  staticDir: null,       // Directory of the built client (dist/) to serve, if any
+  imageProvider: null,   // Defaults to the provider selected by IMAGE_PROVIDER
+  objectStore: null,     // Defaults to the store selected by OBJECT_STORE
+  jobStore: null,        // Defaults to the store selected by JOB_STORE
+  counterStore: null,    // Defaults to the store selected by COUNTER_STORE
+  jobWorker: 'dispatch', // 'inline' runs queued jobs in this process; 'dispatch' hands them to /api/jobs/work
+};
+
+const createApp = (options = {}) => {
+  const config = { ...DEFAULT_OPTIONS, ...options };
+  const { bodyLimit, staticDir } = config;
+  const imageProvider = config.imageProvider || getImageProvider();
+  const objectStore = config.objectStore || getObjectStore();
+  const jobStore = config.jobStore || getJobStore();
+  const counterStore = config.counterStore || getCounterStore();
+  const guestAccess = createGuestAccess({ counterStore });
+  const rateLimit = createRateLimiter({ counterStore });
+
+  const jobWorker = createJobWorker({ jobStore, imageProvider, objectStore, guestAccess });
+  if (config.jobWorker === 'inline') jobWorker.start();
+  const onJobQueued = config.jobWorker === 'inline' ? jobWorker.notify : () => dispatchRemoteWorker();
+
+  const app = express();
+  // Guest allowances are tracked per client IP, which sits behind TRUST_PROXY
+  // proxies (Vercel: 1). Setting it higher than the real count lets clients spoof it.
+  app.set('trust proxy', parseInt(process.env.TRUST_PROXY || '1', 10));
+
+  // Stripe signs the raw body, so the webhook is mounted before the JSON parser
+  app.use(createStripeWebhookRouter());
+
+  // Middleware
+  app.use(express.json({ limit: bodyLimit }));
+  // Lets cross-origin clients read the rate limit headers too
+  app.use(cors({ exposedHeaders: ['Retry-After', 'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset'] }));
+
+  // --- SECURITY MIDDLEWARE ---
+  if (staticDir) {
+    app.use((req, res, next) => {
+      const sensitiveFiles = ['/server.js', '/.env', '/package.json', '/tsconfig.json'];
+      if (sensitiveFiles.includes(req.path) || req.path.startsWith('/.git')) {
+        return res.status(403).send('Forbidden');
+      }
+      next();
+    });
+
+    // --- SERVE STATIC FILES (PRODUCTION) ---
+    app.use(express.static(staticDir));
+  }
+
+  // --- API ROUTES ---
+  app.get('/api/health', (req, res) => {
+    res.status(200).json({ status: 'ok', timestamp: new Date() });
+  });
+
+  // Rate limits (policies in api/rateLimit.js); the job worker, webhook
+  // and signed object URLs are not limited
+  app.post('/api/generate', rateLimit('generate'));
+  const jobStatusLimit = rateLimit('jobStatus');
+  app.get('/api/jobs/:id', (req, res, next) => (req.params.id === 'work' ? next() : jobStatusLimit(req, res, next)));
+  app.post(['/api/checkout', '/api/verify-checkout'], rateLimit('checkout'));
+  app.use('/api/images', rateLimit('images'));
+  app.get('/api/generations/:id/download', rateLimit('download'));
+  app.use('/api/guest', rateLimit('guest'));
+
+  app.use(createGenerateRouter({ imageProvider, objectStore, jobStore, guestAccess, onJobQueued }));
+  app.use(createGuestsRouter({ guestAccess, objectStore }));
+  app.use(createJobsRouter({ jobStore, jobWorker, objectStore }));
+  app.use(createCheckoutRouter());
+  app.use(createImagesRouter({ objectStore }));
+  app.use(createAdminRouter());
+  app.use(createCreditsRouter());
+
+  // CATCH ALL: Unknown API routes, then the React App (when serving static files)
+  app.all('/api/*', (req, res) => {
+    res.status(404).json({ error: 'API route not found' });
+  });
+
+  if (staticDir) {
+    app.get('*', (req, res) => {
+      res.sendFile(path.join(staticDir, 'index.html'));
+    });
+  }
+
+  // --- ERROR HANDLER ---
+  // Body parser failures never reach the route handlers, so map them here
+  app.use((err, req, res, next) => {
+    if (err.type === 'entity.too.large') {
+      return res.status(413).json({ error: `The image is too large. Please upload a file smaller than ${bodyLimit.toUpperCase()}.` });
+    }
+    if (err.type === 'entity.parse.failed') {
+      return res.status(400).json({ error: "Malformed JSON request body." });
+    }
+    console.error("Unhandled Server Error:", err);
+    res.status(500).json({ error: err.message || "An unexpected internal server error occurred." });
+  });
+
+  return app;
+};
+
+module.exports = { createApp };
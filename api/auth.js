@@ -0,0 +1,33 @@
+// SHARED AUTH HELPERS
+const crypto = require('crypto');
+const supabaseAdmin = require('./supabaseClient.js');
+
+// One lookup per request, however many middlewares and handlers ask
+const resolvedUsers = new WeakMap();
+
+const resolveUser = async (req) => {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || authHeader === 'Bearer null' || authHeader === 'Bearer undefined') return null;
+  const token = authHeader.replace('Bearer ', '');
+  if (!token) return null;
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+  if (error || !user) return null;
+  return user;
+};
+
+// Resolves the Supabase user from the Bearer token, or null for guests
+const getAuthenticatedUser = (req) => {
+  if (!resolvedUsers.has(req)) resolvedUsers.set(req, resolveUser(req));
+  return resolvedUsers.get(req);
+};
+
+// Whether the request carries `Authorization: Bearer <secret>` for one of
+// the secrets (cron and worker endpoints). Compares digests, which are
+// always the same length, in constant time.
+const hasBearerSecret = (req, secrets) => {
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  const presented = digest(req.headers.authorization || '');
+  return secrets.some((secret) => crypto.timingSafeEqual(presented, digest(`Bearer ${secret}`)));
+};
+
+module.exports = { getAuthenticatedUser, hasBearerSecret };
@@ -0,0 +1,32 @@
+// COUNTER STORE REGISTRY
+// Fixed-window usage counters (guest previews per day, API rate limits). A window starts
+// at a multiple of windowSeconds since the epoch, so daily windows reset at
+// midnight UTC. Every store exposes the same shape:
+//   name     - identifier used in logs and COUNTER_STORE
+//   consume  - (key, { limit, windowSeconds }) => { allowed, count, limit, windowStart, resetsAt }
+//              counts one use unless the window already holds `limit`
+//   release  - (key, windowStart) => void; gives one use back (e.g. the work failed)
+//   peek     - (key, { windowSeconds }) => number of uses in the current window
+const { createSupabaseCounterStore } = require('./supabase.js');
+const { createMemoryCounterStore } = require('./memory.js');
+const { createRedisCounterStore } = require('./redis.js');
+
+const STORES = {
+  supabase: createSupabaseCounterStore,
+  memory: createMemoryCounterStore,
+  redis: createRedisCounterStore,
+};
+
+const DEFAULT_STORE = 'supabase';
+
+// Select the store via COUNTER_STORE (COUNTER_STORE=memory only works with a single long-running server)
+const getCounterStore = (env = process.env) => {
+  const name = (env.COUNTER_STORE || DEFAULT_STORE).trim().toLowerCase();
+  const factory = STORES[name];
+  if (!factory) {
+    throw new Error(`Unknown COUNTER_STORE "${name}". Expected one of: ${Object.keys(STORES).join(', ')}`);
+  }
+  return factory(env);
+};
+
+module.exports = { getCounterStore };
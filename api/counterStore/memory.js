@@ -0,0 +1,47 @@
+// IN-MEMORY COUNTER STORE
+// Local development stand-in for the usage_counters table. Counts are lost
+// when the process exits, and are not shared with other processes.
+const { currentWindow } = require('./window.js');
+
+const createMemoryCounterStore = () => {
+  // `${key}@${windowStart}` -> { count, resetsAt }
+  const counts = new Map();
+
+  // Drops counters of windows that have ended, so the map stays small
+  const prune = () => {
+    const now = new Date().toISOString();
+    for (const [id, entry] of counts) {
+      if (entry.resetsAt <= now) counts.delete(id);
+    }
+  };
+
+  return {
+    name: 'memory',
+
+    consume: async (key, { limit, windowSeconds }) => {
+      prune();
+      const { windowStart, resetsAt } = currentWindow(windowSeconds);
+      const id = `${key}@${windowStart}`;
+      const entry = counts.get(id) || { count: 0, resetsAt };
+      if (entry.count >= limit) {
+        return { allowed: false, count: entry.count, limit, windowStart, resetsAt };
+      }
+      entry.count += 1;
+      counts.set(id, entry);
+      return { allowed: true, count: entry.count, limit, windowStart, resetsAt };
+    },
+
+    release: async (key, windowStart) => {
+      const entry = counts.get(`${key}@${windowStart}`);
+      if (entry && entry.count > 0) entry.count -= 1;
+    },
+
+    peek: async (key, { windowSeconds }) => {
+      const { windowStart } = currentWindow(windowSeconds);
+      const entry = counts.get(`${key}@${windowStart}`);
+      return entry ? entry.count : 0;
+    }
+  };
+};
+
+module.exports = { createMemoryCounterStore };
@@ -0,0 +1,71 @@
+// REDIS COUNTER STORE
+// Talks to any Redis that speaks the Upstash REST protocol (Upstash, Vercel
+// KV, or a self-hosted REST proxy), so serverless functions need no
+// long-lived connection. Each window is one key that expires with it; the
+// check and increment run as one Lua script.
+const { currentWindow } = require('./window.js');
+
+const CONSUME_SCRIPT = `
+local count = tonumber(redis.call('GET', KEYS[1]) or '0')
+if count >= tonumber(ARGV[1]) then return -1 end
+count = redis.call('INCR', KEYS[1])
+if count == 1 then redis.call('EXPIRE', KEYS[1], ARGV[2]) end
+return count`;
+
+const RELEASE_SCRIPT = `
+if tonumber(redis.call('GET', KEYS[1]) or '0') > 0 then return redis.call('DECR', KEYS[1]) end
+return 0`;
+
+// Accept Upstash's and Vercel KV's variable names
+const resolveConfig = (env) => ({
+  url: (env.REDIS_REST_URL || env.UPSTASH_REDIS_REST_URL || env.KV_REST_API_URL || '').replace(/\/$/, ''),
+  token: env.REDIS_REST_TOKEN || env.UPSTASH_REDIS_REST_TOKEN || env.KV_REST_API_TOKEN || ''
+});
+
+const createRedisCounterStore = (env = process.env) => {
+  const { url, token } = resolveConfig(env);
+  if (!url || !token) {
+    throw new Error("COUNTER_STORE=redis needs REDIS_REST_URL and REDIS_REST_TOKEN.");
+  }
+
+  const command = async (...args) => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(2000)
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data || data.error) {
+      throw new Error(`Counter store request failed: ${(data && data.error) || response.status}`);
+    }
+    return data.result;
+  };
+
+  const windowKey = (key, windowStart) => `counter:${key}@${windowStart}`;
+
+  return {
+    name: 'redis',
+
+    consume: async (key, { limit, windowSeconds }) => {
+      const { windowStart, resetsAt } = currentWindow(windowSeconds);
+      // Kept a little past the window so a late release still finds it
+      const ttl = Math.ceil((Date.parse(resetsAt) - Date.now()) / 1000) + 60;
+      const count = Number(await command('EVAL', CONSUME_SCRIPT, 1, windowKey(key, windowStart), limit, ttl));
+      return count < 0
+        ? { allowed: false, count: limit, limit, windowStart, resetsAt }
+        : { allowed: true, count, limit, windowStart, resetsAt };
+    },
+
+    release: async (key, windowStart) => {
+      await command('EVAL', RELEASE_SCRIPT, 1, windowKey(key, windowStart));
+    },
+
+    peek: async (key, { windowSeconds }) => {
+      const { windowStart } = currentWindow(windowSeconds);
+      return Number(await command('GET', windowKey(key, windowStart))) || 0;
+    }
+  };
+};
+
+module.exports = { createRedisCounterStore };
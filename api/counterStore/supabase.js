@@ -0,0 +1,45 @@
+// SUPABASE COUNTER STORE
+// Backed by the usage_counters table; consume_usage_counter (see
+// supabase_setup.sql) checks and increments in one statement, so concurrent
+// requests can never push a window past its limit.
+const supabaseAdmin = require('../supabaseClient.js');
+const { currentWindow } = require('./window.js');
+
+const createSupabaseCounterStore = () => ({
+  name: 'supabase',
+
+  consume: async (key, { limit, windowSeconds }) => {
+    const { windowStart, resetsAt } = currentWindow(windowSeconds);
+    if (limit <= 0) return { allowed: false, count: 0, limit, windowStart, resetsAt };
+
+    const { data, error } = await supabaseAdmin.rpc('consume_usage_counter', {
+      p_key: key,
+      p_window_start: windowStart,
+      p_limit: limit
+    });
+    if (error) throw new Error(`Counter store consume failed: ${error.message}`);
+    // null: the window was already full
+    return data === null
+      ? { allowed: false, count: limit, limit, windowStart, resetsAt }
+      : { allowed: true, count: data, limit, windowStart, resetsAt };
+  },
+
+  release: async (key, windowStart) => {
+    const { error } = await supabaseAdmin.rpc('release_usage_counter', { p_key: key, p_window_start: windowStart });
+    if (error) throw new Error(`Counter store release failed: ${error.message}`);
+  },
+
+  peek: async (key, { windowSeconds }) => {
+    const { windowStart } = currentWindow(windowSeconds);
+    const { data, error } = await supabaseAdmin
+      .from('usage_counters')
+      .select('count')
+      .eq('key', key)
+      .eq('window_start', windowStart)
+      .maybeSingle();
+    if (error) throw new Error(`Counter store read failed: ${error.message}`);
+    return data ? data.count : 0;
+  }
+});
+
+module.exports = { createSupabaseCounterStore };
@@ -0,0 +1,9 @@
+// FIXED WINDOWS
+// The current window for a given length: { windowStart, resetsAt } as ISO strings
+const currentWindow = (windowSeconds, now = Date.now()) => {
+  const lengthMs = windowSeconds * 1000;
+  const start = Math.floor(now / lengthMs) * lengthMs;
+  return { windowStart: new Date(start).toISOString(), resetsAt: new Date(start + lengthMs).toISOString() };
+};
+
+module.exports = { currentWindow };
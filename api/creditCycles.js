@@ -0,0 +1,130 @@
+// CREDIT CYCLES
+// Monthly allowances for subscriptions. Each billing period starts a cycle
+// (start_credit_cycle in supabase_setup.sql) that grants the plan's credits
+// and settles what is left of the last allowance: plans with a rolloverCap
+// (plans.json) carry up to that much over, the rest expires. Every cycle is
+// stored in credit_cycles and its grant and expiry in the credit ledger.
+//
+// Cycles are started by the checkout (the first period), by invoice.paid on
+// each renewal or paid plan change and, for renewals whose webhook never
+// arrived, by the scheduled run (runDueCreditCycles via /api/credits/cycle).
+// No subscription credits are granted outside a cycle.
+const supabaseAdmin = require('./supabaseClient.js');
+const stripe = require('./stripeClient.js');
+const { resolvePlanByPriceId } = require('./plans.js');
+
+// Only paid-up subscriptions get a new allowance
+const GRANTING_STATUSES = ['active', 'trialing'];
+
+// How long a subscriber the scheduled run skipped waits to be checked again
+const RECHECK_MS = 24 * 60 * 60 * 1000;
+
+const fromUnix = (seconds) => new Date(seconds * 1000);
+
+// Plans are billed monthly; used where Stripe's period is not at hand
+const oneMonthAfter = (date) => {
+  const end = new Date(date);
+  end.setUTCMonth(end.getUTCMonth() + 1);
+  return end;
+};
+
+// Returns the cycle for the period:
+//   { id, userId, plan, periodStart, periodEnd, source, referenceId, granted,
+//     rolledOver, expired, allowance, newlyProcessed }
+// or null for an unknown user. Starting the same (or an older) period again
+// changes nothing.
+const startCreditCycle = async (userId, plan, { periodStart, periodEnd, source, referenceId, grant = true }) => {
+  const { data, error } = await supabaseAdmin.rpc('start_credit_cycle', {
+    p_user_id: userId,
+    p_plan: plan.id,
+    p_period_start: periodStart.toISOString(),
+    p_period_end: periodEnd.toISOString(),
+    p_allowance: plan.credits,
+    p_rollover_cap: plan.rolloverCap,
+    p_source: source,
+    p_reference_id: referenceId,
+    p_grant: grant
+  });
+  if (error) throw new Error(`Credit cycle error: ${error.message}`);
+  if (!data) return null;
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    plan: data.plan,
+    periodStart: data.period_start,
+    periodEnd: data.period_end,
+    source: data.source,
+    referenceId: data.reference_id,
+    granted: data.granted,
+    rolledOver: data.rolled_over,
+    expired: data.expired,
+    allowance: data.allowance,
+    newlyProcessed: data.newly_processed
+  };
+};
+
+// Moves a profile's next check to `until` (Stripe's period end) or, if that
+// has passed too, a day from now. Skipped profiles must leave the front of
+// the queue, or enough of them would hold up every renewal behind them.
+const deferCheck = async (userId, until = null) => {
+  const next = until && until.getTime() > Date.now() ? until : new Date(Date.now() + RECHECK_MS);
+  const { error } = await supabaseAdmin.from('profiles').update({ credit_period_end: next.toISOString() }).eq('id', userId);
+  if (error) console.error(`Failed to defer the credit cycle check for ${userId}:`, error.message);
+};
+
+// Checks Stripe for subscribers whose period has ended and starts the
+// period Stripe has moved them to, if its invoice is paid. Returns
+// { checked, started }.
+const runDueCreditCycles = async ({ limit = 100 } = {}) => {
+  const { data: profiles, error } = await supabaseAdmin
+    .from('profiles')
+    .select('id, stripe_subscription_id')
+    .not('stripe_subscription_id', 'is', null)
+    .lte('credit_period_end', new Date().toISOString())
+    .order('credit_period_end', { ascending: true })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load due credit cycles: ${error.message}`);
+
+  let started = 0;
+  for (const profile of profiles) {
+    try {
+      const subscription = await stripe.subscriptions.retrieve(profile.stripe_subscription_id, { expand: ['latest_invoice'] });
+      const periodEnd = fromUnix(subscription.current_period_end);
+      const invoice = subscription.latest_invoice;
+      if (!GRANTING_STATUSES.includes(subscription.status) || !invoice || invoice.status !== 'paid') {
+        // Unpaid for now; invoice.paid (or a later run) starts the period
+        await deferCheck(profile.id);
+        continue;
+      }
+
+      const plan = resolvePlanByPriceId(subscription.items?.data?.[0]?.price?.id);
+      if (!plan) {
+        console.warn(`Subscription ${subscription.id} does not match a known plan; no credit cycle started.`);
+        await deferCheck(profile.id);
+        continue;
+      }
+
+      const cycle = await startCreditCycle(profile.id, plan, {
+        periodStart: fromUnix(subscription.current_period_start),
+        periodEnd,
+        source: 'schedule',
+        // The same reference invoice.paid uses, so the two never both grant
+        referenceId: invoice.id
+      });
+      if (cycle && cycle.newlyProcessed) {
+        started += 1;
+      } else {
+        // Stripe has not moved on yet (e.g. the checkout's estimated period end passed first)
+        await deferCheck(profile.id, periodEnd);
+      }
+    } catch (err) {
+      console.error(`Credit cycle for ${profile.id} failed:`, err.message);
+      await deferCheck(profile.id);
+    }
+  }
+
+  return { checked: profiles.length, started };
+};
+
+module.exports = { startCreditCycle, runDueCreditCycles, fromUnix, oneMonthAfter };
@@ -0,0 +1,72 @@
+// CREDIT LEDGER
+// All credit movements go through the ledger RPCs in supabase_setup.sql.
+// Generation follows reserve -> (provider call) -> commit | release so that
+// concurrent requests can never spend the same credit twice. Holds expire
+// after 15 minutes unless renewed; an expired hold only commits while the
+// balance still covers it.
+const supabaseAdmin = require('./supabaseClient.js');
+
+const rpc = async (fn, params) => {
+  const { data, error } = await supabaseAdmin.rpc(fn, params);
+  if (error) throw new Error(`Credit ledger error (${fn}): ${error.message}`);
+  return data;
+};
+
+// Returns the reservation id, or null when the user cannot cover the amount
+const reserveCredits = (userId, amount, { reason, referenceId = null }) =>
+  rpc('reserve_credits', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_reason: reason,
+    p_reference_id: referenceId
+  });
+
+// Returns false when the hold lapsed and its credits were spent elsewhere
+const commitReservation = (reservationId) =>
+  rpc('commit_credit_reservation', { p_reservation_id: reservationId });
+
+const releaseReservation = (reservationId) =>
+  rpc('release_credit_reservation', { p_reservation_id: reservationId });
+
+// Keeps holds alive for `seconds` more. Returns false (and releases the
+// hold) when one had already expired and the balance no longer covers it.
+const renewReservations = (reservationIds, seconds) =>
+  rpc('renew_credit_reservations', { p_reservation_ids: reservationIds, p_seconds: seconds });
+
+const grantCredits = (userId, amount, { reason, referenceId = null }) =>
+  rpc('add_credits', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_entry_type: 'grant',
+    p_reason: reason,
+    p_reference_id: referenceId
+  });
+
+const refundCredits = (userId, amount, { reason, referenceId = null }) =>
+  rpc('add_credits', {
+    p_user_id: userId,
+    p_amount: amount,
+    p_entry_type: 'refund',
+    p_reason: reason,
+    p_reference_id: referenceId
+  });
+
+const getBalance = async (userId) => {
+  const { data, error } = await supabaseAdmin
+    .from('credit_balances')
+    .select('balance')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Credit ledger error (balance): ${error.message}`);
+  return data ? data.balance : 0;
+};
+
+module.exports = {
+  reserveCredits,
+  commitReservation,
+  releaseReservation,
+  renewReservations,
+  grantCredits,
+  refundCredits,
+  getBalance
+};
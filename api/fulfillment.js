@@ -0,0 +1,143 @@
+// CHECKOUT FULFILMENT
+// Grants the purchase for a Stripe Checkout Session exactly once. Every
+// path that can observe a paid session (the browser's verify call and the
+// Stripe webhook) must go through here.
+const supabaseAdmin = require('./supabaseClient.js');
+const stripe = require('./stripeClient.js');
+const { resolvePlanByPriceId } = require('./plans.js');
+const { unlockImage } = require('./images.js');
+const { startCreditCycle, oneMonthAfter } = require('./creditCycles.js');
+
+// Raised when Stripe took payment for something that is not in the plan
+// catalog (unknown or unconfigured price id). Never grant 0 silently.
+const createUnknownPlanError = (sessionId, priceId) => {
+  const error = new Error(`Paid checkout ${sessionId} (price ${priceId || 'unknown'}) does not match a known plan.`);
+  error.code = 'UNKNOWN_PLAN';
+  return error;
+};
+
+// Resolves the purchased plan from the session's line item price id
+const resolveSessionPlan = async (session) => {
+  const lineItems = session.line_items
+    ? session.line_items.data
+    : (await stripe.checkout.sessions.listLineItems(session.id, { limit: 1 })).data;
+
+  const priceId = lineItems[0]?.price?.id;
+  const plan = resolvePlanByPriceId(priceId);
+  if (!plan) throw createUnknownPlanError(session.id, priceId);
+  return plan;
+};
+
+// Returns the stored fulfilment record:
+//   { sessionId, userId, creditsGranted, clientReferenceId, processedAt, newlyProcessed }
+const fulfillCheckoutSession = async ({ sessionId, userId, credits, clientReferenceId = null }) => {
+  const { data, error } = await supabaseAdmin.rpc('fulfill_checkout_session', {
+    p_session_id: sessionId,
+    p_user_id: userId,
+    p_credits: credits,
+    p_client_reference_id: clientReferenceId
+  });
+  if (error) throw new Error(`Checkout fulfilment error: ${error.message}`);
+
+  return {
+    sessionId: data.session_id,
+    userId: data.user_id,
+    creditsGranted: data.credits_granted,
+    clientReferenceId: data.client_reference_id,
+    processedAt: data.processed_at,
+    newlyProcessed: data.newly_processed
+  };
+};
+
+const updateProfileBilling = async (userId, updates) => {
+  const { error } = await supabaseAdmin.from('profiles').update(updates).eq('id', userId);
+  if (error) throw new Error(`Failed to update billing profile: ${error.message}`);
+};
+
+// Fulfils a paid session for userId, unlocks the image carried in the
+// session metadata and, for subscriptions, records the plan and Stripe ids
+// on the profile and opens the first credit cycle. Safe to call any number
+// of times.
+// Throws UNKNOWN_PLAN when the purchased price is not in the catalog.
+const completeCheckout = async (session, userId) => {
+  const plan = await resolveSessionPlan(session);
+
+  const record = await fulfillCheckoutSession({
+    sessionId: session.id,
+    userId,
+    credits: plan.credits,
+    clientReferenceId: session.client_reference_id
+  });
+
+  if (record.userId === userId && session.metadata?.imageId) {
+    const unlocked = await unlockImage(userId, session.metadata.imageId);
+    if (!unlocked) console.warn(`Checkout ${session.id}: image ${session.metadata.imageId} not found for ${userId}.`);
+  }
+
+  if (record.userId === userId && session.mode === 'subscription') {
+    await updateProfileBilling(userId, {
+      plan: plan.id,
+      stripe_customer_id: session.customer,
+      stripe_subscription_id: session.subscription,
+      subscription_status: 'active'
+    });
+
+    // The checkout granted this period's allowance; the cycle makes the
+    // first renewal roll it over or expire it. Stripe's exact period is not
+    // in the session, and renewals use their invoice's period anyway.
+    if (record.newlyProcessed) {
+      const periodStart = new Date();
+      await startCreditCycle(userId, plan, {
+        periodStart,
+        periodEnd: oneMonthAfter(periodStart),
+        source: 'checkout',
+        referenceId: session.id,
+        grant: false
+      });
+    }
+  }
+
+  return record;
+};
+
+// Works out which account a session belongs to when there is no logged-in
+// user to ask (webhooks). client_reference_id is either a user id (plan
+// purchases) or an image id (single image unlocks).
+const resolveSessionUserId = async (session) => {
+  if (session.metadata?.userId) return session.metadata.userId;
+
+  const ref = session.client_reference_id;
+  if (ref) {
+    const { data: profile } = await supabaseAdmin.from('profiles').select('id').eq('id', ref).maybeSingle();
+    if (profile) return profile.id;
+
+    const { data: image } = await supabaseAdmin.from('images').select('user_id').eq('id', ref).maybeSingle();
+    if (image) return image.user_id;
+  }
+
+  const email = session.customer_details?.email || session.customer_email;
+  if (email) {
+    const { data: profile } = await supabaseAdmin.from('profiles').select('id').eq('email', email).maybeSingle();
+    if (profile) return profile.id;
+  }
+
+  return null;
+};
+
+const findUserIdByCustomer = async (customerId) => {
+  if (!customerId) return null;
+  const { data: profile } = await supabaseAdmin
+    .from('profiles')
+    .select('id')
+    .eq('stripe_customer_id', customerId)
+    .maybeSingle();
+  return profile ? profile.id : null;
+};
+
+module.exports = {
+  fulfillCheckoutSession,
+  completeCheckout,
+  resolveSessionUserId,
+  findUserIdByCustomer,
+  updateProfileBilling
+};
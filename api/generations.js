@@ -0,0 +1,93 @@
+// GENERATION OUTPUTS
+// Keeps the clean provider output server-side and decides who may fetch it.
+const crypto = require('crypto');
+const supabaseAdmin = require('./supabaseClient.js');
+const { describeImage, extensionFor } = require('./imageInfo.js');
+const { createThumbnail } = require('./thumbnails.js');
+
+const removeObjects = (objectStore, keys) => Promise.all(
+  keys.filter(Boolean).map((key) => objectStore.remove(key).catch((err) => console.warn(err.message)))
+);
+
+// Stores the clean output, its gallery thumbnail and (for locked
+// generations) the watermarked preview, and records ownership. A
+// generation paid for with a credit starts unlocked; guest previews start
+// locked. The stored MIME type is sniffed from the output bytes. Throws
+// if the generation cannot be recorded.
+const saveGeneration = async (objectStore, { userId, imageBase64, isUnlocked, groupId = null, preview = null }) => {
+  const id = crypto.randomUUID();
+  const buffer = Buffer.from(imageBase64, 'base64');
+  const info = await describeImage(buffer);
+  const { mimeType } = info;
+  const outputKey = `generations/${id}.${extensionFor(mimeType)}`;
+  const previewKey = preview ? `previews/${id}.${extensionFor(preview.mimeType)}` : null;
+  const thumbnail = await createThumbnail(buffer);
+  const thumbnailKey = `thumbnails/${id}.${extensionFor(thumbnail.mimeType)}`;
+
+  await objectStore.put(outputKey, buffer, mimeType);
+  await objectStore.put(thumbnailKey, thumbnail.buffer, thumbnail.mimeType);
+  if (preview) {
+    await objectStore.put(previewKey, Buffer.from(preview.imageBase64, 'base64'), preview.mimeType);
+  }
+
+  const { error } = await supabaseAdmin.from('generations').insert({
+    id,
+    user_id: userId,
+    output_key: outputKey,
+    preview_key: previewKey,
+    thumbnail_key: thumbnailKey,
+    mime_type: mimeType,
+    width: info.width,
+    height: info.height,
+    size_bytes: info.sizeBytes,
+    is_unlocked: isUnlocked,
+    group_id: groupId
+  });
+  // Without the row nobody could ever unlock or download it: not delivered
+  if (error) {
+    await removeObjects(objectStore, [outputKey, thumbnailKey, previewKey]);
+    throw new Error(`Failed to record generation ${id}: ${error.message}`);
+  }
+
+  return { id, outputKey, previewKey, thumbnailKey, mimeType, width: info.width, height: info.height };
+};
+
+const getGeneration = async (generationId) => {
+  const { data } = await supabaseAdmin
+    .from('generations')
+    .select('id, user_id, group_id, output_key, preview_key, thumbnail_key, mime_type, width, height, size_bytes, is_unlocked')
+    .eq('id', generationId)
+    .maybeSingle();
+  return data || null;
+};
+
+// Returns the generation if userId may download its clean output: they own
+// it and it was either paid for up front or its image has been unlocked.
+const getDownloadableGeneration = async (userId, generationId) => {
+  const generation = await getGeneration(generationId);
+
+  if (!generation || generation.user_id !== userId) return null;
+  if (generation.is_unlocked) return generation;
+
+  const { data: unlockedImage } = await supabaseAdmin
+    .from('images')
+    .select('id')
+    .eq('generation_id', generationId)
+    .eq('user_id', userId)
+    .eq('is_unlocked', true)
+    .limit(1)
+    .maybeSingle();
+
+  return unlockedImage ? generation : null;
+};
+
+// Deletes a stored generation that will not be delivered after all
+const discardGeneration = async (objectStore, generationId) => {
+  const generation = await getGeneration(generationId);
+  if (!generation) return;
+  const { error } = await supabaseAdmin.from('generations').delete().eq('id', generationId);
+  if (error) throw new Error(`Failed to discard generation ${generationId}: ${error.message}`);
+  await removeObjects(objectStore, [generation.output_key, generation.preview_key, generation.thumbnail_key]);
+};
+
+module.exports = { saveGeneration, getGeneration, getDownloadableGeneration, discardGeneration };
@@ -0,0 +1,200 @@
+// GUEST PREVIEWS
+// Guests are identified by a signed token the browser keeps (POST
+// /api/guest/token) and by a hashed bucket of their IP address. Both get a
+// daily allowance of free previews in the counter store, and a preview
+// needs room in both, so clearing localStorage alone does not reset it.
+// Every preview a guest makes is remembered in guest_previews, so signing
+// up (POST /api/guest/claim) moves it into the new account's gallery.
+const crypto = require('crypto');
+const supabaseAdmin = require('./supabaseClient.js');
+const { createImageRecord } = require('./images.js');
+
+const DAY_SECONDS = 24 * 60 * 60;
+// A guest must sign up within this long of their last visit to keep their previews
+const TOKEN_TTL_SECONDS = 30 * DAY_SECONDS;
+const TOKEN_VERSION = 'g1';
+
+const parseLimit = (value, fallback) => {
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// IPv6 clients usually own a whole /64, so that is one bucket
+const ipBucketOf = (ip = '') => {
+  const address = ip.replace(/^::ffff:/, '');
+  return address.includes(':') ? address.split(':').slice(0, 4).join(':') : address;
+};
+
+// Every instance must sign with the same secret: on serverless, a token one
+// instance issued is usually checked by another. Without one in production
+// guest access is turned off (null); the rest of the API keeps working.
+const resolveTokenSecret = (env) => {
+  if (env.GUEST_TOKEN_SECRET) return env.GUEST_TOKEN_SECRET;
+  if (env.NODE_ENV === 'production' || env.VERCEL) {
+    console.error("❌ BACKEND ERROR: Missing GUEST_TOKEN_SECRET. Guest previews are disabled.");
+    return null;
+  }
+  // Local development: tokens are only valid until the process restarts
+  console.warn("⚠️ BACKEND WARNING: Missing GUEST_TOKEN_SECRET. Guest tokens will not survive a restart.");
+  return crypto.randomBytes(32).toString('hex');
+};
+
+const createGuestAccess = ({ counterStore, env = process.env }) => {
+  const secret = resolveTokenSecret(env);
+  const perGuest = parseLimit(env.GUEST_DAILY_PREVIEWS, 1);
+  // Higher than perGuest: households and offices share an address
+  const perIp = parseLimit(env.GUEST_IP_DAILY_PREVIEWS, 5);
+
+  const sign = (payload) => crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+  // Returns a fresh token for guestId (a renewed one keeps the guest's id)
+  const issueToken = (guestId) => {
+    const payload = `${TOKEN_VERSION}.${guestId}.${Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS}`;
+    return `${payload}.${sign(payload)}`;
+  };
+
+  // Returns the guest id, or null for a missing, forged or expired token
+  const verifyToken = (token) => {
+    if (!secret || typeof token !== 'string') return null;
+    const parts = token.split('.');
+    if (parts.length !== 4 || parts[0] !== TOKEN_VERSION) return null;
+
+    const payload = parts.slice(0, 3).join('.');
+    const expected = Buffer.from(sign(payload));
+    const actual = Buffer.from(parts[3]);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+    if (Number(parts[2]) * 1000 < Date.now()) return null;
+    return parts[1];
+  };
+
+  // Raw addresses are never stored
+  const counterKeys = (guestId, ip) => [
+    `guest:${guestId}`,
+    `guest-ip:${crypto.createHmac('sha256', secret).update(ipBucketOf(ip)).digest('hex').slice(0, 32)}`
+  ];
+
+  // Takes one preview from both allowances. Returns { quota } (pass it to
+  // releasePreview if no preview is delivered) or { status, error, code, resetsAt }.
+  const consumePreview = async (guestId, ip) => {
+    const [guestKey, ipKey] = counterKeys(guestId, ip);
+    const limits = { [guestKey]: perGuest, [ipKey]: perIp };
+    const quota = [];
+
+    for (const key of [guestKey, ipKey]) {
+      const use = await counterStore.consume(key, { limit: limits[key], windowSeconds: DAY_SECONDS });
+      if (!use.allowed) {
+        await releasePreview(quota);
+        return {
+          status: 429,
+          error: "You've used today's free preview. Sign up to keep generating, or come back tomorrow.",
+          code: 'GUEST_QUOTA_EXCEEDED',
+          resetsAt: use.resetsAt
+        };
+      }
+      quota.push({ key, windowStart: use.windowStart });
+    }
+    return { quota };
+  };
+
+  const releasePreview = (quota = []) => Promise.all(quota.map(({ key, windowStart }) =>
+    counterStore.release(key, windowStart).catch((err) => console.error("Failed to release guest preview:", err.message))
+  ));
+
+  // Previews the guest can still make today
+  const remainingPreviews = async (guestId, ip) => {
+    const [guestKey, ipKey] = counterKeys(guestId, ip);
+    const [guestUsed, ipUsed] = await Promise.all([
+      counterStore.peek(guestKey, { windowSeconds: DAY_SECONDS }),
+      counterStore.peek(ipKey, { windowSeconds: DAY_SECONDS })
+    ]);
+    return Math.max(0, Math.min(perGuest - guestUsed, perIp - ipUsed));
+  };
+
+  return { enabled: Boolean(secret), dailyPreviews: perGuest, issueToken, verifyToken, consumePreview, releasePreview, remainingPreviews };
+};
+
+// Remembers a delivered guest preview and where its source image is kept
+const recordGuestPreview = async ({ guestId, generationId, source, prompt, presetId = null }) => {
+  const { error } = await supabaseAdmin.from('guest_previews').insert({
+    generation_id: generationId,
+    guest_id: guestId,
+    source_key: source.key,
+    source_mime_type: source.mimeType,
+    source_width: source.width,
+    source_height: source.height,
+    prompt,
+    preset_id: presetId
+  });
+  // The preview itself still works; it just cannot follow the guest into an account
+  if (error) console.error(`Failed to record guest preview ${generationId}:`, error.message);
+};
+
+// Hands a preview whose claim failed halfway back to the guest, so a later
+// claim can try again
+const unclaimGuestPreview = async (userId, generationId) => {
+  const [{ error: ownerError }, { error: claimError }] = await Promise.all([
+    supabaseAdmin.from('generations').update({ user_id: null }).eq('id', generationId).eq('user_id', userId),
+    supabaseAdmin.from('guest_previews').update({ claimed_by: null, claimed_at: null }).eq('generation_id', generationId).eq('claimed_by', userId)
+  ]);
+  const failure = ownerError || claimError;
+  if (failure) console.error(`Failed to undo the claim of guest preview ${generationId}:`, failure.message);
+};
+
+// Moves a guest's unclaimed previews into userId's gallery as locked
+// images. Each preview can be claimed once. Returns the number claimed.
+const claimGuestPreviews = async (objectStore, userId, guestId) => {
+  const { data: rows, error } = await supabaseAdmin
+    .from('guest_previews')
+    .select('generation_id, source_key, source_mime_type, source_width, source_height, prompt, preset_id, created_at')
+    .eq('guest_id', guestId)
+    .is('claimed_by', null)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(`Failed to load guest previews: ${error.message}`);
+
+  let claimed = 0;
+  const sourceKeys = new Set();
+  for (const row of rows) {
+    let taken = null;
+    try {
+      // A preview whose source is gone stays unclaimed rather than half moved
+      const source = await objectStore.get(row.source_key);
+      if (!source) throw new Error("source image is missing");
+
+      ({ data: taken } = await supabaseAdmin
+        .from('guest_previews')
+        .update({ claimed_by: userId, claimed_at: new Date().toISOString() })
+        .eq('generation_id', row.generation_id)
+        .is('claimed_by', null)
+        .select('generation_id')
+        .maybeSingle());
+      if (!taken) continue;
+
+      const { error: ownerError } = await supabaseAdmin
+        .from('generations')
+        .update({ user_id: userId })
+        .eq('id', row.generation_id)
+        .is('user_id', null);
+      if (ownerError) throw new Error(ownerError.message);
+
+      const record = await createImageRecord(objectStore, userId, {
+        original: { buffer: source.buffer, mimeType: row.source_mime_type, width: row.source_width, height: row.source_height },
+        generationId: row.generation_id,
+        prompt: row.prompt,
+        timestamp: Date.parse(row.created_at),
+        presetId: row.preset_id
+      });
+      if (!record) throw new Error("the generation belongs to another account");
+      sourceKeys.add(row.source_key);
+      claimed += 1;
+    } catch (err) {
+      console.error(`Failed to claim guest preview ${row.generation_id}:`, err.message);
+      if (taken) await unclaimGuestPreview(userId, row.generation_id);
+    }
+  }
+
+  // Each record now keeps its own copy of the source
+  await Promise.all([...sourceKeys].map((key) => objectStore.remove(key).catch((err) => console.warn(err.message))));
+  return claimed;
+};
+
+module.exports = { createGuestAccess, recordGuestPreview, claimGuestPreviews };
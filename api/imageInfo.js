@@ -0,0 +1,45 @@
+// IMAGE FILE FACTS
+// Formats are always read from the bytes, never from a declared MIME type
+// or data URL prefix, which the client (or a provider) may get wrong.
+const sharp = require('sharp');
+
+const MIME_TYPES = { jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp', gif: 'image/gif', heif: 'image/heif' };
+
+const ascii = (buffer, start, end) => buffer.toString('latin1', start, end);
+
+// Magic-byte signatures, checked in order
+const SIGNATURES = [
+  ['image/jpeg', (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff],
+  ['image/png', (b) => b.readUInt32BE(0) === 0x89504e47 && b.readUInt32BE(4) === 0x0d0a1a0a],
+  ['image/webp', (b) => ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 12) === 'WEBP'],
+  ['image/gif', (b) => ascii(b, 0, 4) === 'GIF8'],
+  ['image/bmp', (b) => ascii(b, 0, 2) === 'BM'],
+  ['image/tiff', (b) => ['II*\u0000', 'MM\u0000*'].includes(ascii(b, 0, 4))],
+  ['image/avif', (b) => ascii(b, 4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(b, 8, 12))],
+  ['image/heic', (b) => ascii(b, 4, 8) === 'ftyp' && ['heic', 'heix', 'hevc', 'heif', 'mif1', 'msf1'].includes(ascii(b, 8, 12))],
+  ['application/pdf', (b) => ascii(b, 0, 5) === '%PDF-'],
+];
+
+// The MIME type the bytes actually are, or null if unrecognised
+const sniffMimeType = (buffer) => {
+  if (!buffer || buffer.length < 12) return null;
+  const match = SIGNATURES.find(([, test]) => test(buffer));
+  return match ? match[0] : null;
+};
+
+// Dimensions, MIME type and byte size of an encoded image
+const describeImage = async (buffer) => {
+  const { width, height, format } = await sharp(buffer).metadata();
+  return {
+    width,
+    height,
+    mimeType: sniffMimeType(buffer) || MIME_TYPES[format] || `image/${format}`,
+    sizeBytes: buffer.length
+  };
+};
+
+const EXTENSIONS = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif', 'image/heif': 'heic' };
+
+const extensionFor = (mimeType) => EXTENSIONS[mimeType] || 'bin';
+
+module.exports = { sniffMimeType, describeImage, extensionFor };
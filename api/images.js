@@ -0,0 +1,273 @@
+// IMAGE RECORDS (SERVER SIDE)
+// Image bytes live in the object store; rows hold keys and file facts.
+// The browser only ever receives short-lived signed URLs.
+const supabaseAdmin = require('./supabaseClient.js');
+const { extensionFor } = require('./imageInfo.js');
+const { getGeneration } = require('./generations.js');
+const { createThumbnail } = require('./thumbnails.js');
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SIGNED_URL_TTL_SECONDS = parseInt(process.env.SIGNED_URL_TTL_SECONDS || '3600', 10);
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+// Everything but the legacy base64 columns
+const RECORD_COLUMNS = [
+  'id', 'user_id', 'prompt', 'timestamp', 'is_unlocked', 'is_free_preview', 'generation_id', 'group_id', 'parent_image_id', 'preset_id',
+  'original_key', 'original_mime_type', 'original_width', 'original_height', 'original_size_bytes',
+  'generated_key', 'generated_mime_type', 'generated_width', 'generated_height', 'generated_size_bytes',
+  'preview_key', 'thumbnail_key'
+].join(', ');
+
+const signKey = (objectStore, key) => (key ? objectStore.getSignedUrl(key, SIGNED_URL_TTL_SECONDS) : null);
+
+// Locked images expose their watermarked preview in place of the generated output
+const visibleGeneratedKey = (row) => (row.is_unlocked ? row.generated_key : (row.preview_key || null));
+
+// The clean thumbnail is only shown once unlocked; until then the preview
+// (already small and watermarked) doubles as the thumbnail. Rows saved
+// before thumbnails existed fall back to the full-size object.
+const thumbnailKey = (row) => {
+  if (!row.is_unlocked && row.preview_key) return row.preview_key;
+  return row.thumbnail_key || visibleGeneratedKey(row) || row.original_key;
+};
+
+// Metadata and a thumbnail URL only; what the gallery lists
+const toClientSummary = async (objectStore, row) => ({
+  id: row.id,
+  userId: row.user_id,
+  thumbnailUrl: await signKey(objectStore, thumbnailKey(row)),
+  prompt: row.prompt,
+  timestamp: row.timestamp,
+  isUnlocked: row.is_unlocked,
+  isFreePreview: row.is_free_preview,
+  generationId: row.generation_id,
+  groupId: row.group_id,
+  parentImageId: row.parent_image_id,
+  presetId: row.preset_id,
+  mimeType: row.generated_mime_type || row.original_mime_type,
+  width: row.generated_width || row.original_width,
+  height: row.generated_height || row.original_height,
+  sizeBytes: row.generated_size_bytes || row.original_size_bytes
+});
+
+// The full record, with signed URLs for the full-size images
+const toClientRecord = async (objectStore, row) => {
+  const [summary, originalImageUrl, generatedImageUrl] = await Promise.all([
+    toClientSummary(objectStore, row),
+    signKey(objectStore, row.original_key),
+    signKey(objectStore, visibleGeneratedKey(row))
+  ]);
+
+  return { ...summary, originalImageUrl, generatedImageUrl };
+};
+
+// Page cursors are opaque to the client: the (timestamp, id) of the last row
+const encodeCursor = (row) => Buffer.from(JSON.stringify([row.timestamp, row.id])).toString('base64url');
+
+// Returns null for anything that is not a cursor this server issued
+const decodeCursor = (cursor) => {
+  try {
+    const [timestamp, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!Number.isFinite(timestamp) || typeof id !== 'string' || !UUID_PATTERN.test(id)) return null;
+    return { timestamp, id };
+  } catch {
+    return null;
+  }
+};
+
+const clampPageSize = (limit) => {
+  const size = parseInt(limit, 10);
+  if (!Number.isFinite(size) || size < 1) return DEFAULT_PAGE_SIZE;
+  return Math.min(size, MAX_PAGE_SIZE);
+};
+
+// Uploads the source image (already checked by prepareUpload) and links the
+// generation's output and thumbnail; without a generation the thumbnail is
+// made from the source. Unlock state comes from the generation, never the
+// client. Returns null if the generation is not the user's. Callers check
+// that parentImageId (the image an edit was made from) is the user's too.
+const createImageRecord = async (objectStore, userId, { id, original, generationId, prompt, timestamp, parentImageId = null, presetId = null }) => {
+  const generation = generationId ? await getGeneration(generationId) : null;
+  if (generationId && (!generation || generation.user_id !== userId)) return null;
+
+  const { data: row, error } = await supabaseAdmin
+    .from('images')
+    .insert({
+      // Keep the client's id so it stays valid for in-flight payment flows
+      ...(id && UUID_PATTERN.test(id) ? { id } : {}),
+      user_id: userId,
+      prompt,
+      timestamp: timestamp || Date.now(),
+      is_unlocked: generation ? generation.is_unlocked : false,
+      is_free_preview: generation ? !generation.is_unlocked : false,
+      generation_id: generation ? generation.id : null,
+      group_id: generation ? generation.group_id : null,
+      parent_image_id: parentImageId,
+      preset_id: presetId,
+      original_mime_type: original.mimeType,
+      original_width: original.width,
+      original_height: original.height,
+      original_size_bytes: original.buffer.length,
+      generated_key: generation ? generation.output_key : null,
+      generated_mime_type: generation ? generation.mime_type : null,
+      generated_width: generation ? generation.width : null,
+      generated_height: generation ? generation.height : null,
+      generated_size_bytes: generation ? generation.size_bytes : null,
+      preview_key: generation ? generation.preview_key : null,
+      thumbnail_key: generation ? generation.thumbnail_key : null
+    })
+    .select(RECORD_COLUMNS)
+    .single();
+  if (error) throw new Error(`Failed to save image: ${error.message}`);
+
+  const keys = { original_key: `originals/${row.id}.${extensionFor(original.mimeType)}` };
+  await objectStore.put(keys.original_key, original.buffer, original.mimeType);
+
+  if (!row.thumbnail_key) {
+    const thumbnail = await createThumbnail(original.buffer);
+    keys.thumbnail_key = `thumbnails/${row.id}.${extensionFor(thumbnail.mimeType)}`;
+    await objectStore.put(keys.thumbnail_key, thumbnail.buffer, thumbnail.mimeType);
+  }
+
+  const { data: saved, error: keyError } = await supabaseAdmin
+    .from('images')
+    .update(keys)
+    .eq('id', row.id)
+    .select(RECORD_COLUMNS)
+    .single();
+  if (keyError) throw new Error(`Failed to save image: ${keyError.message}`);
+
+  return toClientRecord(objectStore, saved);
+};
+
+// One page of the user's gallery, newest first, optionally only one style preset's results.
+// Returns { images, nextCursor }; nextCursor is null on the last page.
+const listImages = async (objectStore, userId, { cursor = null, limit, presetId = null } = {}) => {
+  const pageSize = clampPageSize(limit);
+  let query = supabaseAdmin
+    .from('images')
+    .select(RECORD_COLUMNS)
+    .eq('user_id', userId)
+    .order('timestamp', { ascending: false })
+    .order('id', { ascending: false })
+    // One extra row tells us whether another page exists
+    .limit(pageSize + 1);
+
+  if (presetId) {
+    query = query.eq('preset_id', presetId);
+  }
+  if (cursor) {
+    query = query.or(`timestamp.lt.${cursor.timestamp},and(timestamp.eq.${cursor.timestamp},id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to list images: ${error.message}`);
+
+  const page = data.slice(0, pageSize);
+  return {
+    images: await Promise.all(page.map((row) => toClientSummary(objectStore, row))),
+    nextCursor: data.length > pageSize ? encodeCursor(page[page.length - 1]) : null
+  };
+};
+
+// Returns the full record, or null if it is not the user's
+const getImageRecord = async (objectStore, userId, imageId) => {
+  const { data: row, error } = await supabaseAdmin
+    .from('images')
+    .select(RECORD_COLUMNS)
+    .eq('id', imageId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load image: ${error.message}`);
+  return row ? toClientRecord(objectStore, row) : null;
+};
+
+// The output of one of the user's images, to be edited further.
+// Returns { buffer } or { status, error }.
+const loadEditSource = async (objectStore, userId, imageId) => {
+  const { data: row, error } = await supabaseAdmin
+    .from('images')
+    .select('id, is_unlocked, generated_key')
+    .eq('id', imageId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load image: ${error.message}`);
+
+  if (!row || !row.generated_key) return { status: 404, error: "Image not found." };
+  if (!row.is_unlocked) return { status: 403, error: "Unlock this image before editing it further." };
+
+  const object = await objectStore.get(row.generated_key);
+  if (!object) return { status: 404, error: "The stored image is no longer available." };
+  return { buffer: object.buffer };
+};
+
+// Every image in the same edit tree as imageId, oldest first (summaries).
+// Returns null if the image is not the user's.
+const getEditHistory = async (objectStore, userId, imageId) => {
+  const { data, error } = await supabaseAdmin
+    .rpc('image_edit_tree', { p_user_id: userId, p_image_id: imageId })
+    .select(RECORD_COLUMNS);
+  if (error) throw new Error(`Failed to load edit history: ${error.message}`);
+  if (!data.length) return null;
+  return Promise.all(data.map((row) => toClientSummary(objectStore, row)));
+};
+
+// Deletes the record and the objects only it references. Generation
+// outputs and thumbnails are kept for the download route. Returns false if not found.
+const deleteImageRecord = async (objectStore, userId, imageId) => {
+  const { data: row } = await supabaseAdmin
+    .from('images')
+    .select('id, original_key, thumbnail_key, generation_id')
+    .eq('id', imageId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!row) return false;
+
+  const { error } = await supabaseAdmin.from('images').delete().eq('id', imageId);
+  if (error) throw new Error(`Failed to delete image: ${error.message}`);
+
+  const ownKeys = [row.original_key, row.generation_id ? null : row.thumbnail_key].filter(Boolean);
+  for (const key of ownKeys) {
+    await objectStore.remove(key).catch((err) => console.warn(err.message));
+  }
+  return true;
+};
+
+// Marks an image the user owns as unlocked. Used by purchase fulfilment.
+// Returns true if the image exists and belongs to the user.
+const unlockImage = async (userId, imageId) => {
+  const { data, error } = await supabaseAdmin
+    .from('images')
+    .update({ is_unlocked: true })
+    .eq('id', imageId)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) throw new Error(`Failed to unlock image: ${error.message}`);
+  return data.length > 0;
+};
+
+// Spends one credit to unlock an image.
+// Returns 'unlocked', 'already_unlocked', 'not_found' or 'insufficient_credits'.
+const unlockImageWithCredit = async (userId, imageId) => {
+  const { data, error } = await supabaseAdmin.rpc('unlock_image_with_credit', {
+    p_user_id: userId,
+    p_image_id: imageId
+  });
+  if (error) throw new Error(`Failed to unlock image: ${error.message}`);
+  return data;
+};
+
+module.exports = {
+  UUID_PATTERN,
+  signKey,
+  decodeCursor,
+  createImageRecord,
+  listImages,
+  getImageRecord,
+  loadEditSource,
+  getEditHistory,
+  deleteImageRecord,
+  unlockImage,
+  unlockImageWithCredit
+};
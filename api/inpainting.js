@@ -0,0 +1,79 @@
+// MASKED EDITS (INPAINTING)
+// The browser paints a mask over the upload: white marks what may change,
+// black what must stay. Providers get the mask as a hint, but whatever they
+// return is composited back onto the original through a feathered copy of
+// the mask, so pixels outside it never change.
+const sharp = require('sharp');
+const { sniffMimeType } = require('./imageInfo.js');
+
+const MASK_MIME_TYPES = ['image/png', 'image/webp'];
+// Masks are mostly flat colour, so even full-resolution ones compress well
+const MAX_MASK_BYTES = 2 * 1024 * 1024;
+// Share of the image that must be painted for a mask to count
+const MIN_COVERAGE = 0.001;
+
+const OUTPUT_FORMATS = {
+  png: (image) => image.png(),
+  webp: (image) => image.webp({ quality: 92 }),
+};
+
+// Validates a mask and fits it to the upload's (upright) dimensions.
+// Returns { mask: single-channel PNG buffer, coverage } or { status, error }.
+const prepareMask = async (buffer, { width, height }) => {
+  if (buffer.length > MAX_MASK_BYTES) {
+    return { status: 413, error: "The mask is too large." };
+  }
+  if (!MASK_MIME_TYPES.includes(sniffMimeType(buffer))) {
+    return { status: 415, error: "The mask must be a PNG image." };
+  }
+
+  let mask;
+  try {
+    // Unpainted (transparent) areas count as black
+    mask = await sharp(buffer)
+      .flatten({ background: '#000000' })
+      .resize(width, height, { fit: 'fill' })
+      .extractChannel(0)
+      .png()
+      .toBuffer();
+  } catch {
+    return { status: 400, error: "Could not read the mask." };
+  }
+
+  const { channels } = await sharp(mask).stats();
+  const coverage = channels[0].mean / 255;
+  if (coverage < MIN_COVERAGE) {
+    return { status: 400, error: "The mask is empty. Paint over the area you want to change." };
+  }
+  return { mask, coverage };
+};
+
+// Blends the provider's output over the original wherever the mask is
+// white. The mask is softened first so the seam does not show. Keeps
+// PNG/WebP (and their transparency); everything else becomes a high-quality JPEG.
+const compositeMasked = async (originalBuffer, resultBuffer, maskBuffer) => {
+  const { width, height, format } = await sharp(originalBuffer).metadata();
+  const feather = Math.max(1, Math.round(Math.max(width, height) / 400));
+
+  // Both sides go through raw pixels: sharp runs removeAlpha after
+  // joinChannel within one pipeline, which would drop the new alpha channel
+  const softMask = await sharp(maskBuffer).blur(feather).extractChannel(0).toColourspace('b-w').raw().toBuffer({ resolveWithObject: true });
+  const resultPixels = await sharp(resultBuffer)
+    .resize(width, height, { fit: 'fill' })
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const rawOf = ({ info }) => ({ raw: { width: info.width, height: info.height, channels: info.channels } });
+  const maskedResult = await sharp(resultPixels.data, rawOf(resultPixels))
+    .joinChannel(softMask.data, rawOf(softMask))
+    .png()
+    .toBuffer();
+
+  const composited = sharp(originalBuffer).composite([{ input: maskedResult }]);
+  const encode = OUTPUT_FORMATS[format];
+  const output = encode ? await encode(composited).toBuffer() : await composited.jpeg({ quality: 92 }).toBuffer();
+
+  return { imageBase64: output.toString('base64'), mimeType: encode ? `image/${format}` : 'image/jpeg' };
+};
+
+module.exports = { prepareMask, compositeMasked };
@@ -0,0 +1,39 @@
+// JOB STORE REGISTRY
+// Generation jobs are queued here by /api/generate and claimed by the worker.
+// Every store exposes the same shape:
+//   name       - identifier used in logs and JOB_STORE
+//   create     - (job) => job
+//   get        - (id) => job | null
+//   claimNext  - (leaseSeconds, maxRunning) => job | null; marks the next
+//                queued job (or one whose lease expired) as running and
+//                counts the attempt. Returns null while maxRunning jobs hold
+//                a live lease.
+//   queuePosition    - (job) => number; 1 + the queued jobs claimed before it
+//   recentRunSeconds - (limit) => number[]; run times of the latest successes
+//   update     - (id, patch) => void
+// Jobs are claimed by rank (priority, raised while they wait; see
+// queueOrder.js), then oldest first.
+// Jobs are plain objects: { id, userId, status, priority, request,
+// reservationIds, progress, result, error, attempts, createdAt, startedAt,
+// finishedAt }.
+const { createSupabaseJobStore } = require('./supabase.js');
+const { createMemoryJobStore } = require('./memory.js');
+
+const STORES = {
+  supabase: createSupabaseJobStore,
+  memory: createMemoryJobStore,
+};
+
+const DEFAULT_STORE = 'supabase';
+
+// Select the store via JOB_STORE (JOB_STORE=memory only works with a single long-running server)
+const getJobStore = (env = process.env) => {
+  const name = (env.JOB_STORE || DEFAULT_STORE).trim().toLowerCase();
+  const factory = STORES[name];
+  if (!factory) {
+    throw new Error(`Unknown JOB_STORE "${name}". Expected one of: ${Object.keys(STORES).join(', ')}`);
+  }
+  return factory(env);
+};
+
+module.exports = { getJobStore };
@@ -0,0 +1,64 @@
+// IN-MEMORY JOB STORE
+// Local development stand-in for the generation_jobs table. Jobs are lost
+// when the process exits, and are invisible to other processes.
+const { getAgingSeconds, rankOf } = require('./queueOrder.js');
+
+const createMemoryJobStore = (env = process.env) => {
+  const jobs = new Map();
+  const agingSeconds = getAgingSeconds(env);
+
+  // Highest rank first, then oldest first (the same order as claim_generation_job)
+  const byQueueOrder = (a, b, now = Date.now()) =>
+    (rankOf(b, agingSeconds, now) - rankOf(a, agingSeconds, now)) || (Date.parse(a.createdAt) - Date.parse(b.createdAt));
+
+  return {
+    name: 'memory',
+
+    create: async (job) => {
+      const stored = { priority: 0, attempts: 0, progress: null, result: null, error: null, startedAt: null, finishedAt: null, ...job, createdAt: new Date().toISOString(), lockedUntil: null };
+      jobs.set(job.id, stored);
+      return { ...stored };
+    },
+
+    get: async (id) => {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+
+    claimNext: async (leaseSeconds, maxRunning = Infinity) => {
+      const now = Date.now();
+      const leased = [...jobs.values()].filter((job) => job.status === 'running' && Date.parse(job.lockedUntil) >= now);
+      if (leased.length >= maxRunning) return null;
+
+      const next = [...jobs.values()]
+        .filter((job) => job.status === 'queued' || (job.status === 'running' && Date.parse(job.lockedUntil) < now))
+        .sort((a, b) => byQueueOrder(a, b, now))[0];
+      if (!next) return null;
+
+      Object.assign(next, {
+        status: 'running',
+        attempts: next.attempts + 1,
+        lockedUntil: new Date(now + leaseSeconds * 1000).toISOString(),
+        startedAt: new Date(now).toISOString()
+      });
+      return { ...next };
+    },
+
+    queuePosition: async (job) => [...jobs.values()]
+      .filter((other) => other.status === 'queued' && byQueueOrder(other, job) < 0)
+      .length + 1,
+
+    recentRunSeconds: async (limit) => [...jobs.values()]
+      .filter((job) => job.status === 'succeeded' && job.startedAt && job.finishedAt)
+      .sort((a, b) => Date.parse(b.finishedAt) - Date.parse(a.finishedAt))
+      .slice(0, limit)
+      .map((job) => (Date.parse(job.finishedAt) - Date.parse(job.startedAt)) / 1000),
+
+    update: async (id, patch) => {
+      const job = jobs.get(id);
+      if (job) Object.assign(job, patch);
+    }
+  };
+};
+
+module.exports = { createMemoryJobStore };
@@ -0,0 +1,16 @@
+// QUEUE ORDER
+// Queued jobs are claimed by rank, then oldest first. A job's rank is its
+// priority plus one for every JOB_PRIORITY_AGING_SECONDS it has waited, so
+// guest previews are delayed behind paid work but never starved. Mirrors
+// generation_job_rank in supabase_setup.sql.
+const DEFAULT_AGING_SECONDS = 120;
+
+const getAgingSeconds = (env = process.env) => {
+  const parsed = parseInt(env.JOB_PRIORITY_AGING_SECONDS, 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_AGING_SECONDS;
+};
+
+const rankOf = (job, agingSeconds, now = Date.now()) =>
+  job.priority + Math.floor((now - Date.parse(job.createdAt)) / 1000 / agingSeconds);
+
+module.exports = { getAgingSeconds, rankOf };
@@ -0,0 +1,106 @@
+// SUPABASE JOB STORE
+// Backed by the generation_jobs table; claim_generation_job (see
+// supabase_setup.sql) uses SKIP LOCKED so concurrent workers never share a
+// job, and serializes claims so maxRunning holds across workers.
+const supabaseAdmin = require('../supabaseClient.js');
+const { getAgingSeconds } = require('./queueOrder.js');
+
+const COLUMNS = {
+  userId: 'user_id',
+  status: 'status',
+  priority: 'priority',
+  request: 'request',
+  reservationIds: 'reservation_ids',
+  progress: 'progress',
+  result: 'result',
+  error: 'error',
+  attempts: 'attempts',
+  finishedAt: 'finished_at',
+};
+
+const toRow = (job) => {
+  const row = {};
+  for (const [field, column] of Object.entries(COLUMNS)) {
+    if (job[field] !== undefined) row[column] = job[field];
+  }
+  return row;
+};
+
+const fromRow = (row) => ({
+  id: row.id,
+  userId: row.user_id,
+  status: row.status,
+  priority: row.priority,
+  request: row.request,
+  reservationIds: row.reservation_ids || [],
+  progress: row.progress,
+  result: row.result,
+  error: row.error,
+  attempts: row.attempts,
+  createdAt: row.created_at,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+});
+
+const createSupabaseJobStore = (env = process.env) => {
+  const agingSeconds = getAgingSeconds(env);
+
+  return {
+    name: 'supabase',
+
+    create: async (job) => {
+      const { data, error } = await supabaseAdmin
+        .from('generation_jobs')
+        .insert({ id: job.id, ...toRow(job) })
+        .select()
+        .single();
+      if (error) throw new Error(`Job store insert failed: ${error.message}`);
+      return fromRow(data);
+    },
+
+    get: async (id) => {
+      const { data, error } = await supabaseAdmin.from('generation_jobs').select('*').eq('id', id).maybeSingle();
+      if (error) throw new Error(`Job store read failed: ${error.message}`);
+      return data ? fromRow(data) : null;
+    },
+
+    claimNext: async (leaseSeconds, maxRunning = null) => {
+      const { data, error } = await supabaseAdmin.rpc('claim_generation_job', {
+        p_lease_seconds: leaseSeconds,
+        p_max_running: Number.isFinite(maxRunning) ? maxRunning : null,
+        p_aging_seconds: agingSeconds
+      });
+      if (error) throw new Error(`Job store claim failed: ${error.message}`);
+      const row = Array.isArray(data) ? data[0] : data;
+      return row && row.id ? fromRow(row) : null;
+    },
+
+    queuePosition: async (job) => {
+      const { data, error } = await supabaseAdmin.rpc('generation_queue_position', { p_job_id: job.id, p_aging_seconds: agingSeconds });
+      if (error) throw new Error(`Job store queue read failed: ${error.message}`);
+      return data;
+    },
+
+    recentRunSeconds: async (limit) => {
+      const { data, error } = await supabaseAdmin
+        .from('generation_jobs')
+        .select('started_at, finished_at')
+        .eq('status', 'succeeded')
+        .not('started_at', 'is', null)
+        .order('finished_at', { ascending: false })
+        .limit(limit);
+      if (error) throw new Error(`Job store read failed: ${error.message}`);
+      return data.map((row) => (Date.parse(row.finished_at) - Date.parse(row.started_at)) / 1000);
+    },
+
+    update: async (id, patch) => {
+      const { error } = await supabaseAdmin
+        .from('generation_jobs')
+        .update({ ...toRow(patch), updated_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw new Error(`Job store update failed: ${error.message}`);
+    }
+  };
+};
+
+module.exports = { createSupabaseJobStore };
@@ -0,0 +1,419 @@
+// GENERATION JOB WORKER
+// Runs queued generation jobs: calls the provider (or upscaler) once per
+// requested variation, stores the outputs, creates image records for
+// logged-in users and settles the credit reservations (or the guest's free
+// preview) taken at enqueue time.
+//
+// server.js runs the loop in-process (start). On Vercel, /api/jobs/work
+// drains the queue in its own invocation, kicked after each enqueue and by
+// an external cron as a safety net.
+//
+// At most JOB_CONCURRENCY jobs run at once across all workers (the job
+// store enforces the cap when claiming), and higher-priority jobs are
+// claimed first (plans.json queuePriority).
+const crypto = require('crypto');
+const { commitReservation, releaseReservation, renewReservations } = require('./credits.js');
+const { saveGeneration, discardGeneration } = require('./generations.js');
+const { createImageRecord } = require('./images.js');
+const { createWatermarkedPreview } = require('./watermark.js');
+const { upscaleImage } = require('./upscaler.js');
+const { compositeMasked } = require('./inpainting.js');
+const { isModerationError, logModerationIncident } = require('./moderation.js');
+const { recordGuestPreview } = require('./guests.js');
+const { sniffMimeType, extensionFor } = require('./imageInfo.js');
+
+// A running job not finished within its lease is assumed abandoned and retried
+const LEASE_SECONDS = 300;
+const MAX_ATTEMPTS = 2;
+// Credit holds are renewed on every claim to outlast the lease (and the
+// settling after it)
+const HOLD_SECONDS = LEASE_SECONDS + 120;
+// Wait estimates average this many recent jobs, refreshed at most this often
+const ESTIMATE_SAMPLE_SIZE = 20;
+const ESTIMATE_TTL_MS = 30 * 1000;
+// Assumed run time until jobs have finished to measure
+const DEFAULT_RUN_SECONDS = 20;
+
+const createJobWorker = ({ jobStore, imageProvider, objectStore, guestAccess, env = process.env }) => {
+  const pollIntervalMs = parseInt(env.JOB_POLL_INTERVAL_MS || '1000', 10);
+  const concurrency = Math.max(1, parseInt(env.JOB_CONCURRENCY || '2', 10) || 1);
+
+  // Runs the provider (or upscaler) once. `variation` lets providers
+  // vary otherwise identical requests. Masked edits are composited back
+  // onto the source so nothing outside the mask changes.
+  const runGeneration = async ({ mode, upload, mask, prompt, scale, variation }) => {
+    if (mode === 'upscale') return upscaleImage(upload.buffer, scale);
+    const result = await imageProvider.generate({
+      imageBase64: upload.buffer.toString('base64'),
+      mimeType: upload.mimeType,
+      maskBase64: mask ? mask.toString('base64') : null,
+      prompt,
+      variation
+    });
+    if (!mask || !result.imageBase64) return result;
+    return { ...result, ...(await compositeMasked(upload.buffer, Buffer.from(result.imageBase64, 'base64'), mask)) };
+  };
+
+  // Stores one output. The clean output always stays server-side. Guests
+  // (no credit spent) only ever get the watermarked, downscaled preview.
+  const storeOutput = async (result, { userId, isLocked, groupId }) => {
+    // Trust the bytes over the provider's declared type
+    const outputBuffer = Buffer.from(result.imageBase64, 'base64');
+    const outputMimeType = sniffMimeType(outputBuffer);
+    if (!outputMimeType) {
+      throw new Error("AI Service Error: the returned data is not a recognised image.");
+    }
+    if (result.mimeType && result.mimeType !== outputMimeType) {
+      console.warn(`${imageProvider.name} declared ${result.mimeType} but returned ${outputMimeType}`);
+    }
+
+    const preview = isLocked ? await createWatermarkedPreview(outputBuffer) : null;
+    const generation = await saveGeneration(objectStore, {
+      userId,
+      imageBase64: result.imageBase64,
+      isUnlocked: !isLocked,
+      groupId,
+      preview
+    });
+
+    return {
+      generationId: generation.id,
+      // What the client is shown: the preview while locked, else the clean output
+      imageKey: generation.previewKey || generation.outputKey,
+      // Type and dimensions of the full output, even when only a preview is shown
+      mimeType: generation.mimeType,
+      width: generation.width,
+      height: generation.height
+    };
+  };
+
+  // Image records are created here, not by the browser, so a refresh
+  // mid-generation still ends with the records saved.
+  const createRecord = async (job, upload, variation) => {
+    try {
+      const record = await createImageRecord(objectStore, job.userId, {
+        original: upload,
+        generationId: variation.generationId,
+        prompt: job.request.recordPrompt,
+        timestamp: Date.now(),
+        parentImageId: job.request.parentImageId || null,
+        presetId: job.request.presetId || null
+      });
+      return record ? record.id : null;
+    } catch (err) {
+      console.error(`Job ${job.id}: failed to save image record:`, err.message);
+      return null;
+    }
+  };
+
+  const releaseAll = (reservationIds) => Promise.all(reservationIds.map((id) =>
+    releaseReservation(id).catch((err) => console.error("Failed to release credit reservation:", err))
+  ));
+
+  // A guest only spends their free preview when one is delivered
+  const releaseGuestPreview = (job) => guestAccess.releasePreview(job.request.guestQuota || []);
+
+  // Guest previews keep their source, so they can follow the guest into an
+  // account they sign up for (see api/guests.js)
+  const rememberGuestPreviews = async (job, upload, variations) => {
+    const source = { key: `guest-sources/${job.id}.${extensionFor(upload.mimeType)}`, mimeType: upload.mimeType, width: upload.width, height: upload.height };
+    await objectStore.put(source.key, upload.buffer, upload.mimeType);
+    for (const variation of variations) {
+      await recordGuestPreview({
+        guestId: job.request.guestId,
+        generationId: variation.generationId,
+        source,
+        prompt: job.request.recordPrompt,
+        presetId: job.request.presetId || null
+      });
+    }
+  };
+
+  const removeInput = (job) => Promise.all(
+    [job.request.inputKey, job.request.maskKey].filter(Boolean).map((key) => objectStore.remove(key).catch((err) => console.warn(err.message)))
+  );
+
+  const finish = async (job, patch) => {
+    await jobStore.update(job.id, { ...patch, reservationIds: [], finishedAt: new Date().toISOString() });
+    await removeInput(job);
+  };
+
+  // details carries extra typed fields for the client (moderation code, category)
+  const fail = async (job, status, message, details = {}) => {
+    await releaseAll(job.reservationIds);
+    await releaseGuestPreview(job);
+    await finish(job, { status: 'failed', error: { status, message, ...details } });
+  };
+
+  const processJob = async (job) => {
+    const { mode, prompt, scale, count, inputKey, maskKey, inputWidth, inputHeight } = job.request;
+
+    if (job.attempts > MAX_ATTEMPTS) {
+      return fail(job, 500, "The generation did not finish. Please try again.");
+    }
+
+    // A job can wait in the queue for longer than its holds last
+    if (job.reservationIds.length && !(await renewReservations(job.reservationIds, HOLD_SECONDS))) {
+      return fail(job, 403, "Your credits were spent on another request while this one was queued. Please try again.");
+    }
+
+    const input = await objectStore.get(inputKey);
+    if (!input) {
+      return fail(job, 500, "The uploaded image is no longer available. Please try again.");
+    }
+    const upload = { buffer: input.buffer, mimeType: input.contentType, width: inputWidth, height: inputHeight };
+    const maskObject = maskKey ? await objectStore.get(maskKey) : null;
+    if (maskKey && !maskObject) {
+      return fail(job, 500, "The uploaded mask is no longer available. Please try again.");
+    }
+    const mask = maskObject ? maskObject.buffer : null;
+
+    // 1. GENERATE
+    let completed = 0;
+    const setProgress = (stage) => jobStore.update(job.id, { progress: { stage, completed, total: count } })
+      .catch((err) => console.warn(`Job ${job.id}: progress update failed:`, err.message));
+
+    await setProgress('generating');
+    console.log(`Job ${job.id}: ${mode === 'upscale' ? `upscaling ${scale}x` : `sending ${count} request(s) to ${imageProvider.name}`}... Payload size: ${Math.round(upload.buffer.length / 1024)}KB`);
+
+    const outcomes = await Promise.allSettled(
+      Array.from({ length: count }, (_, variation) =>
+        runGeneration({ mode, upload, mask, prompt, scale, variation }).finally(() => {
+          completed += 1;
+          return setProgress('generating');
+        })
+      )
+    );
+
+    const failures = outcomes.filter((outcome) => outcome.status === 'rejected').map((outcome) => outcome.reason);
+    const results = outcomes.filter((outcome) => outcome.status === 'fulfilled').map((outcome) => outcome.value);
+
+    // Safety blocks are logged once per job, even when other variations succeeded
+    const blocked = failures.find(isModerationError);
+    if (blocked) {
+      await logModerationIncident({ userId: job.userId, jobId: job.id, error: blocked, prompt });
+    }
+
+    if (results.length === 0) {
+      if (blocked) {
+        return fail(job, 400, blocked.message, { code: blocked.code, category: blocked.category });
+      }
+      const providerError = failures[0];
+      console.error("Provider Error Object:", JSON.stringify(providerError, Object.getOwnPropertyNames(providerError)));
+      const mapped = mode === 'edit' ? imageProvider.mapError(providerError) : null;
+      return mapped
+        ? fail(job, mapped.status, mapped.error)
+        : fail(job, 500, `AI Service Error: ${providerError.message}`);
+    }
+    if (failures.length > 0) {
+      console.warn(`Job ${job.id}: ${failures.length} of ${count} variations failed:`, failures.map((failure) => failure.message));
+    }
+
+    // 2. STORE AND CHARGE OUTPUTS (and records for logged-in users)
+    // Each image is charged to its own reservation before it is handed out.
+    // One whose hold lapsed while its credits were spent elsewhere is
+    // discarded: nothing is delivered unpaid.
+    await setProgress('saving');
+    const isLocked = !job.userId;
+    const groupId = crypto.randomUUID();
+    const variations = [];
+    const unspent = [...job.reservationIds];
+    let charged = 0;
+    let lapsed = 0;
+
+    const outputs = results.filter((result) => result.imageBase64);
+    for (const result of outputs) {
+      let variation;
+      try {
+        variation = await storeOutput(result, { userId: job.userId, isLocked, groupId });
+      } catch (err) {
+        // Not delivered, so its reservation is released below
+        console.error(`Job ${job.id}: failed to store an output:`, err.message);
+        continue;
+      }
+
+      const reservationId = unspent.shift();
+      if (reservationId && !(await commitReservation(reservationId))) {
+        console.warn(`Job ${job.id}: credit hold ${reservationId} lapsed and the balance no longer covers it; output discarded.`);
+        await discardGeneration(objectStore, variation.generationId).catch((err) => console.error(err.message));
+        lapsed += 1;
+        continue;
+      }
+      if (reservationId) charged += 1;
+
+      variation.imageId = job.userId ? await createRecord(job, upload, variation) : null;
+      variations.push(variation);
+    }
+
+    // 3. RELEASE THE RESERVATIONS OF IMAGES NOT DELIVERED
+    for (const reservationId of unspent) {
+      await releaseReservation(reservationId);
+    }
+    if (outputs.length > 0 && variations.length === 0) {
+      return lapsed > 0
+        ? fail(job, 403, "Your credits were spent on another request while this one was queued. Please try again.")
+        : fail(job, 500, "Your image could not be saved. No credits were charged. Please try again.");
+    }
+    if (job.request.guestId && variations.length > 0) {
+      await rememberGuestPreviews(job, upload, variations).catch((err) => {
+        console.error(`Job ${job.id}: failed to keep the guest preview's source:`, err.message);
+      });
+    }
+
+    const cost = job.reservationIds.length ? job.request.cost : 0;
+    let outcome = 'generated';
+    let guidance = null;
+    let message = mode === 'upscale'
+      ? `Image upscaled ${scale}x.`
+      : (variations.length > 1 ? `${variations.length} variations generated.` : "Image transformed successfully.");
+
+    if (variations.length === 0) {
+      // The model only returned text (e.g. asking for clarification) or
+      // nothing at all. Every reservation was released above; give the
+      // guest's preview back too.
+      outcome = 'no_change';
+      await releaseGuestPreview(job);
+      guidance = results.map((result) => result.text).filter(Boolean).join(' ') || null;
+      message = "The AI did not change the image, so no credits were charged.";
+      console.warn(`Job ${job.id}: no image returned:`, guidance || '(empty response)');
+    }
+
+    await finish(job, {
+      status: 'succeeded',
+      progress: { stage: 'done', completed, total: count },
+      result: {
+        outcome,
+        groupId: variations.length ? groupId : null,
+        variations,
+        isPreview: isLocked,
+        mode,
+        scale,
+        creditsCharged: cost * charged,
+        message,
+        // The model's own words when it made no change; worth showing as a hint
+        guidance
+      }
+    });
+    console.log(`Job ${job.id}: generation successful`);
+  };
+
+  // Claims and runs one job. Returns false when the queue is empty or
+  // every slot is taken.
+  const runNext = async () => {
+    const job = await jobStore.claimNext(LEASE_SECONDS, concurrency);
+    if (!job) return false;
+
+    try {
+      await processJob(job);
+    } catch (err) {
+      console.error(`Job ${job.id} failed:`, err);
+      await fail(job, 500, err.message || "An unexpected internal server error occurred.").catch((failError) => {
+        console.error(`Job ${job.id}: could not record the failure:`, failError);
+      });
+    }
+    return true;
+  };
+
+  // Runs jobs, `concurrency` at a time, until the queue is empty or too
+  // little of budgetMs is left: a job is only claimed while jobMs (its
+  // worst-case run time) still fits, so none is cut off halfway
+  const drain = async (budgetMs, jobMs = 0) => {
+    const startedAt = Date.now();
+    let processed = 0;
+    const lane = async () => {
+      while (budgetMs - (Date.now() - startedAt) >= jobMs && await runNext()) processed += 1;
+    };
+    await Promise.all(Array.from({ length: concurrency }, lane));
+    return processed;
+  };
+
+  // --- QUEUE ESTIMATES ---
+  let runSeconds = { value: DEFAULT_RUN_SECONDS, measuredAt: 0 };
+
+  const averageRunSeconds = async () => {
+    if (Date.now() - runSeconds.measuredAt > ESTIMATE_TTL_MS) {
+      const samples = await jobStore.recentRunSeconds(ESTIMATE_SAMPLE_SIZE);
+      const value = samples.length
+        ? samples.reduce((sum, seconds) => sum + seconds, 0) / samples.length
+        : DEFAULT_RUN_SECONDS;
+      runSeconds = { value, measuredAt: Date.now() };
+    }
+    return runSeconds.value;
+  };
+
+  // { position, estimatedWaitSeconds } for a queued job, else null
+  const describeQueue = async (job) => {
+    if (job.status !== 'queued') return null;
+    const position = await jobStore.queuePosition(job);
+    const estimatedWaitSeconds = Math.ceil(Math.ceil(position / concurrency) * await averageRunSeconds());
+    return { position, estimatedWaitSeconds };
+  };
+
+  // --- IN-PROCESS LOOP (long-running servers) ---
+  let timer = null;
+  let lanes = 0;
+  let stopped = true;
+
+  // Each lane claims jobs until none is left for it; the next poll then
+  // reopens lanes for work queued by other processes
+  const runLane = async () => {
+    lanes += 1;
+    try {
+      while (!stopped && await runNext()) { /* keep draining */ }
+    } catch (err) {
+      console.error("Job worker error:", err);
+    } finally {
+      lanes -= 1;
+      if (!stopped && !timer) timer = setTimeout(tick, pollIntervalMs);
+    }
+  };
+
+  // Opens lanes up to the concurrency limit
+  const tick = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    if (stopped) return;
+    while (lanes < concurrency) runLane();
+  };
+
+  const start = () => {
+    if (!stopped) return;
+    stopped = false;
+    tick();
+  };
+
+  const stop = () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  // Skips the wait before the next poll (called right after a job is queued)
+  const notify = () => {
+    if (stopped || lanes >= concurrency) return;
+    tick();
+  };
+
+  return { concurrency, runNext, drain, describeQueue, start, stop, notify };
+};
+
+// Asks a separate invocation to drain the queue (serverless deployments).
+// Only waits long enough for the request to go out.
+const dispatchRemoteWorker = async (env = process.env) => {
+  const url = env.JOB_WORKER_URL || (env.APP_URL ? `${env.APP_URL.replace(/\/$/, '')}/api/jobs/work` : null);
+  const secret = env.JOB_WORKER_SECRET || env.CRON_SECRET;
+  if (!url || !secret) {
+    console.warn("⚠️ Job queued but no worker URL/secret is configured; it will wait for the next cron run.");
+    return;
+  }
+
+  await fetch(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${secret}` },
+    signal: AbortSignal.timeout(1000)
+  }).catch(() => {
+    // A timeout is expected: the worker keeps running after we stop waiting
+  });
+};
+
+module.exports = { createJobWorker, dispatchRemoteWorker };
@@ -0,0 +1,123 @@
+// CONTENT MODERATION
+// Prompts are screened before any credit is reserved or provider called.
+// Provider safety blocks are normalized into the same typed error, so the
+// client sees one shape whichever layer stopped the request:
+//   400 { error, code, category }  (job errors: { status, message, code, category })
+//   code     - PROMPT_BLOCKED (our screen) | SAFETY_BLOCKED (the provider's filters)
+//   category - sexual | minors | violence | hate | self_harm | dangerous | other
+// Every block is recorded in moderation_incidents for admins.
+const supabaseAdmin = require('./supabaseClient.js');
+
+const CATEGORY_LABELS = {
+  sexual: 'sexual content',
+  minors: 'content involving minors',
+  violence: 'graphic violence',
+  hate: 'hateful content',
+  self_harm: 'self-harm',
+  dangerous: 'dangerous content',
+  other: 'restricted content',
+};
+
+// Longer prompts are rejected before screening: the rules below scan the
+// whole text on every request
+const MAX_PROMPT_LENGTH = 2000;
+
+// Stricter around minors: any of these words counts
+const MINOR_WORDS = /\b(child|children|kid|kids|minor|underage|teen|teenager|schoolgirl|schoolboy)\b/i;
+const SEXUALIZING_WORDS = /\b(nude|naked|sexy|lingerie|undress\w*|topless|sexually explicit)\b/i;
+
+// On their own these words also name colours and idioms ("nude lipstick",
+// "naked eye view"), so they only count next to a person or as a request
+// to undress someone
+const BARE = '(?:(?:fully|completely|totally|entirely|stark|half) )?(?:nude|naked|topless|bottomless)';
+const NUDITY_PHRASES = new RegExp([
+  `\\b${BARE} (?:wom[ae]n|m[ae]n|girls?|boys?|person|people|lad(?:y|ies)|guys?|bod(?:y|ies)|models?|figures?|photos?|selfies?|pic(?:ture)?s?)\\b`,
+  `\\b(?:make|turn|render|show|leave|get|strip|pose) (?:her|him|them|me|us|(?:the|this|that|a) (?:wom[ae]n|m[ae]n|girl|boy|person|model|lady|guy)) ${BARE}\\b`,
+  `\\b(?:she|he|they|i|we)(?: is|'s| are|'re| am|'m) ${BARE}\\b`,
+  `\\b(?:fully|completely|totally|entirely|stark) (?:nude|naked)\\b`,
+  `\\bin the (?:nude|buff)\\b`
+].join('|'), 'i');
+
+// Checked in order; the first rule whose patterns all match decides the
+// category. Patterns are tested separately (never joined with [\s\S]*,
+// which backtracks quadratically on long prompts).
+const PROMPT_RULES = [
+  { category: 'minors', patterns: [MINOR_WORDS, SEXUALIZING_WORDS] },
+  { category: 'sexual', patterns: [/\b(nudity|undress\w*|nsfw|porn\w*|sexually explicit|genitals?|remove (?:all |her |his |their )?cloth\w*|without (?:any )?cloth\w*)\b/i] },
+  { category: 'sexual', patterns: [NUDITY_PHRASES] },
+  { category: 'violence', patterns: [/\b(gore|gory|decapitat\w*|dismember\w*|mutilat\w*|corpse|bloody wounds?|beheading)\b/i] },
+  { category: 'hate', patterns: [/\b(nazi|swastika|kkk|white power)\b/i] },
+  { category: 'self_harm', patterns: [/\b(self[- ]harm|suicide|slit(?:ting)? (?:my |her |his )?wrists?)\b/i] },
+  { category: 'dangerous', patterns: [/\b(bomb[- ]making|make a bomb|explosive vest)\b/i] },
+];
+
+const createModerationError = ({ code, category = 'other', reason = null }) => {
+  const message = code === 'PROMPT_BLOCKED'
+    ? `Your prompt was blocked by our content policy (${CATEGORY_LABELS[category]}). Please rephrase it. No credits were charged.`
+    : "The AI's safety filters blocked this request. Please try a different image or prompt. No credits were charged.";
+  const error = new Error(message);
+  error.code = code;
+  error.category = category;
+  error.reason = reason; // Raw provider reason or matched rule, for the incident log only
+  return error;
+};
+
+const isModerationError = (error) => Boolean(error) && (error.code === 'PROMPT_BLOCKED' || error.code === 'SAFETY_BLOCKED');
+
+// The JSON body sent with a 400 for a moderation error
+const toModerationBody = (error) => ({ error: error.message, code: error.code, category: error.category });
+
+// Returns a PROMPT_BLOCKED error, or null if the prompt may be sent
+const screenPrompt = (prompt) => {
+  if (!prompt || typeof prompt !== 'string') return null;
+  for (const rule of PROMPT_RULES) {
+    const matches = rule.patterns.map((pattern) => prompt.match(pattern));
+    if (matches.every(Boolean)) {
+      return createModerationError({ code: 'PROMPT_BLOCKED', category: rule.category, reason: matches.map((match) => match[0]).join(' + ') });
+    }
+  }
+  return null;
+};
+
+// Records a blocked request. Never throws: moderation must not depend on logging.
+const logModerationIncident = async ({ userId = null, jobId = null, error, prompt = null }) => {
+  const { error: insertError } = await supabaseAdmin.from('moderation_incidents').insert({
+    user_id: userId,
+    job_id: jobId,
+    code: error.code,
+    category: error.category,
+    reason: error.reason,
+    prompt
+  }).then((result) => result, (err) => ({ error: err }));
+  if (insertError) console.error("Failed to log moderation incident:", insertError.message);
+};
+
+// Newest incidents first, for the admin dashboard
+const listModerationIncidents = async ({ limit = 100 } = {}) => {
+  const { data, error } = await supabaseAdmin
+    .from('moderation_incidents')
+    .select('id, user_id, job_id, code, category, reason, prompt, created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Failed to load moderation incidents: ${error.message}`);
+  return data.map((row) => ({
+    id: row.id,
+    userId: row.user_id,
+    jobId: row.job_id,
+    code: row.code,
+    category: row.category,
+    reason: row.reason,
+    prompt: row.prompt,
+    createdAt: row.created_at
+  }));
+};
+
+module.exports = {
+  MAX_PROMPT_LENGTH,
+  createModerationError,
+  isModerationError,
+  toModerationBody,
+  screenPrompt,
+  logModerationIncident,
+  listModerationIncidents
+};
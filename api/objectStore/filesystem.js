@@ -0,0 +1,68 @@
+// FILESYSTEM OBJECT STORE
+// Local development stand-in for Supabase Storage. Objects live under
+// OBJECT_STORE_DIR with a small JSON sidecar holding the content type.
+// Signed URLs point at /api/objects/*, which checks an HMAC signature.
+const crypto = require('crypto');
+const fs = require('fs/promises');
+const path = require('path');
+
+const createFilesystemObjectStore = (env = process.env) => {
+  const root = path.resolve(env.OBJECT_STORE_DIR || '.data/objects');
+  // Without a configured secret, URLs are only valid until the process restarts
+  const signingSecret = env.OBJECT_STORE_SIGNING_SECRET || crypto.randomBytes(32).toString('hex');
+
+  const sign = (key, expires) => crypto.createHmac('sha256', signingSecret).update(`${key}:${expires}`).digest('hex');
+
+  const resolveKey = (key) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) throw new Error(`Invalid object key: ${key}`);
+    return filePath;
+  };
+
+  return {
+    name: 'filesystem',
+
+    put: async (key, buffer, contentType) => {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, buffer);
+      await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    },
+
+    get: async (key) => {
+      const filePath = resolveKey(key);
+      try {
+        const [buffer, meta] = await Promise.all([
+          fs.readFile(filePath),
+          fs.readFile(`${filePath}.meta.json`, 'utf8')
+        ]);
+        return { buffer, contentType: JSON.parse(meta).contentType };
+      } catch (err) {
+        if (err.code === 'ENOENT') return null;
+        throw err;
+      }
+    },
+
+    getSignedUrl: async (key, expiresInSeconds) => {
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+      const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+      return `/api/objects/${encodedKey}?expires=${expires}&signature=${sign(key, expires)}`;
+    },
+
+    // Checks a signature produced by getSignedUrl
+    verifySignature: (key, expires, signature) => {
+      if (!signature || !(Number(expires) > Date.now() / 1000)) return false;
+      const expected = Buffer.from(sign(key, expires));
+      const given = Buffer.from(String(signature));
+      return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+    },
+
+    remove: async (key) => {
+      const filePath = resolveKey(key);
+      await fs.rm(filePath, { force: true });
+      await fs.rm(`${filePath}.meta.json`, { force: true });
+    }
+  };
+};
+
+module.exports = { createFilesystemObjectStore };
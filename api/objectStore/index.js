@@ -0,0 +1,28 @@
+// OBJECT STORE REGISTRY
+// Every store exposes the same shape:
+//   name          - identifier used in logs and OBJECT_STORE
+//   put           - (key, buffer, contentType) => void
+//   get           - (key) => { buffer, contentType } | null
+//   getSignedUrl  - (key, expiresInSeconds) => time-limited URL the browser can load
+//   remove        - (key) => void
+const { createSupabaseObjectStore } = require('./supabase.js');
+const { createFilesystemObjectStore } = require('./filesystem.js');
+
+const STORES = {
+  supabase: createSupabaseObjectStore,
+  filesystem: createFilesystemObjectStore,
+};
+
+const DEFAULT_STORE = 'supabase';
+
+// Select the store via OBJECT_STORE (e.g. OBJECT_STORE=filesystem for local work)
+const getObjectStore = (env = process.env) => {
+  const name = (env.OBJECT_STORE || DEFAULT_STORE).trim().toLowerCase();
+  const factory = STORES[name];
+  if (!factory) {
+    throw new Error(`Unknown OBJECT_STORE "${name}". Expected one of: ${Object.keys(STORES).join(', ')}`);
+  }
+  return factory(env);
+};
+
+module.exports = { getObjectStore };
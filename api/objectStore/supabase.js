@@ -0,0 +1,35 @@
+// SUPABASE STORAGE OBJECT STORE
+const supabaseAdmin = require('../supabaseClient.js');
+
+const createSupabaseObjectStore = (env = process.env) => {
+  const bucket = env.SUPABASE_STORAGE_BUCKET || 'images';
+  const storage = () => supabaseAdmin.storage.from(bucket);
+
+  return {
+    name: 'supabase',
+
+    put: async (key, buffer, contentType) => {
+      const { error } = await storage().upload(key, buffer, { contentType, upsert: true });
+      if (error) throw new Error(`Object store upload failed (${key}): ${error.message}`);
+    },
+
+    get: async (key) => {
+      const { data, error } = await storage().download(key);
+      if (error || !data) return null;
+      return { buffer: Buffer.from(await data.arrayBuffer()), contentType: data.type };
+    },
+
+    getSignedUrl: async (key, expiresInSeconds) => {
+      const { data, error } = await storage().createSignedUrl(key, expiresInSeconds);
+      if (error) throw new Error(`Object store signing failed (${key}): ${error.message}`);
+      return data.signedUrl;
+    },
+
+    remove: async (key) => {
+      const { error } = await storage().remove([key]);
+      if (error) throw new Error(`Object store delete failed (${key}): ${error.message}`);
+    }
+  };
+};
+
+module.exports = { createSupabaseObjectStore };
@@ -0,0 +1,34 @@
+// SERVER PLAN CATALOG
+// Built from the same plans.json as PLANS in types.ts. Stripe price ids
+// come from the environment (they differ between test and live mode):
+//   STRIPE_PRICE_NONE, STRIPE_PRICE_BASIC, STRIPE_PRICE_PRO, STRIPE_PRICE_ELITE
+// Each may hold a comma-separated list for plans with several prices.
+const PLANS = require('../plans.json');
+
+const parseIds = (value) => (value || '').split(',').map((id) => id.trim()).filter(Boolean);
+
+const buildPriceIndex = (env = process.env) => {
+  const index = new Map();
+  for (const plan of PLANS) {
+    for (const priceId of parseIds(env[`STRIPE_PRICE_${plan.id}`])) {
+      index.set(priceId, plan);
+    }
+  }
+  return index;
+};
+
+const priceIndex = buildPriceIndex();
+
+if (priceIndex.size === 0) {
+  console.warn("⚠️ BACKEND WARNING: No STRIPE_PRICE_* ids configured. Paid checkouts cannot be matched to plans.");
+}
+
+const getPlan = (tier) => PLANS.find((plan) => plan.id === tier) || null;
+
+// Returns the plan bought with priceId, or null when it is not in the catalog
+const resolvePlanByPriceId = (priceId) => (priceId && priceIndex.get(priceId)) || null;
+
+// The price id new checkouts for a plan are created with
+const getCheckoutPriceId = (tier, env = process.env) => parseIds(env[`STRIPE_PRICE_${tier}`])[0] || null;
+
+module.exports = { PLANS, getPlan, resolvePlanByPriceId, getCheckoutPriceId };
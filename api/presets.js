@@ -0,0 +1,147 @@
+// STYLE PRESETS
+// Named, tested prompt templates. Only ids, names and parameter choices are
+// sent to the browser; the prompt text is assembled here, so templates can
+// be tuned without a client release. A template's {param} placeholders are
+// filled from the chosen option's text, and {details} from the user's
+// optional free-form prompt.
+const IDENTITY = "Keep the person's face, identity, expression and body shape exactly as they are.";
+
+const PRESETS = [
+  {
+    id: 'corporate-headshot',
+    name: 'Corporate Headshot',
+    description: 'Polished portrait for LinkedIn and company pages.',
+    template: `Turn this photo into a professional corporate headshot. Dress the person in {attire}. Replace the background with {backdrop} and use soft, even studio lighting. ${IDENTITY}{details}`,
+    params: [
+      {
+        id: 'attire',
+        label: 'Attire',
+        options: [
+          { id: 'suit', label: 'Dark suit', text: 'a tailored dark suit with a crisp white shirt' },
+          { id: 'blazer', label: 'Navy blazer', text: 'a navy blazer over a light shirt' },
+          { id: 'smart-casual', label: 'Smart casual', text: 'a smart casual knit sweater' },
+        ],
+        default: 'suit',
+      },
+      {
+        id: 'backdrop',
+        label: 'Backdrop',
+        options: [
+          { id: 'grey', label: 'Grey', text: 'a plain neutral grey backdrop' },
+          { id: 'office', label: 'Office', text: 'a softly blurred modern office' },
+          { id: 'white', label: 'White', text: 'a clean white backdrop' },
+        ],
+        default: 'grey',
+      },
+    ],
+  },
+  {
+    id: 'studio-backdrop',
+    name: 'Studio Backdrop',
+    description: 'Swap the background for a photo-studio look.',
+    template: `Replace the background with {backdrop}, lit like a professional photo studio with a soft key light and subtle rim light. Leave the person's clothing unchanged. ${IDENTITY}{details}`,
+    params: [
+      {
+        id: 'backdrop',
+        label: 'Backdrop',
+        options: [
+          { id: 'charcoal', label: 'Charcoal', text: 'a dark charcoal seamless paper backdrop' },
+          { id: 'warm', label: 'Warm beige', text: 'a warm beige seamless paper backdrop' },
+          { id: 'gradient', label: 'Blue gradient', text: 'a smooth deep blue gradient backdrop' },
+        ],
+        default: 'charcoal',
+      },
+    ],
+  },
+  {
+    id: 'casual-outdoor',
+    name: 'Casual Outdoor',
+    description: 'Relaxed, natural-light portrait outside.',
+    template: `Place the person outdoors in {setting} with natural daylight and a shallow depth of field. Dress them in relaxed, casual clothing. ${IDENTITY}{details}`,
+    params: [
+      {
+        id: 'setting',
+        label: 'Setting',
+        options: [
+          { id: 'park', label: 'Park', text: 'a green park at golden hour' },
+          { id: 'city', label: 'City street', text: 'a quiet city street' },
+          { id: 'beach', label: 'Beach', text: 'a sunny beach' },
+        ],
+        default: 'park',
+      },
+    ],
+  },
+  {
+    id: 'wardrobe-upgrade',
+    name: 'Wardrobe Upgrade',
+    description: 'Change the outfit, keep everything else.',
+    template: `Change only the person's clothing to {outfit}, fitted naturally to their pose. Keep the background and lighting unchanged. ${IDENTITY}{details}`,
+    params: [
+      {
+        id: 'outfit',
+        label: 'Outfit',
+        options: [
+          { id: 'blazer', label: 'Navy blazer', text: 'a navy blazer over a white shirt' },
+          { id: 'suit', label: 'Charcoal suit', text: 'a charcoal three-piece suit' },
+          { id: 'dress', label: 'Business dress', text: 'an elegant dark business dress' },
+        ],
+        default: 'blazer',
+      },
+    ],
+  },
+  {
+    id: 'style-upgrade',
+    name: 'Style Upgrade',
+    description: 'Magazine-quality retouch of the whole photo.',
+    template: `Retouch this photo to look like a high-end magazine portrait: {look}, refined color grading and crisp detail. ${IDENTITY}{details}`,
+    params: [
+      {
+        id: 'look',
+        label: 'Look',
+        options: [
+          { id: 'natural', label: 'Natural', text: 'natural, true-to-life tones' },
+          { id: 'cinematic', label: 'Cinematic', text: 'moody, cinematic contrast' },
+          { id: 'bright', label: 'Bright & airy', text: 'bright, airy high-key tones' },
+        ],
+        default: 'natural',
+      },
+    ],
+  },
+];
+
+const getPreset = (presetId) => PRESETS.find((preset) => preset.id === presetId) || null;
+
+// What the browser may see: no templates, no option text
+const toClientPreset = ({ id, name, description, params }) => ({
+  id,
+  name,
+  description,
+  params: params.map((param) => ({
+    id: param.id,
+    label: param.label,
+    options: param.options.map(({ id: optionId, label }) => ({ id: optionId, label })),
+    default: param.default,
+  })),
+});
+
+const listPresets = () => PRESETS.map(toClientPreset);
+
+// Builds the provider prompt for a preset. Unknown or missing parameters
+// fall back to their defaults; details is the user's optional extra text.
+// Returns { prompt } or { error }.
+const renderPresetPrompt = (presetId, params = {}, details = '') => {
+  const preset = getPreset(presetId);
+  if (!preset) return { error: `Unknown preset "${presetId}".` };
+
+  const values = {};
+  for (const param of preset.params) {
+    const option = param.options.find((candidate) => candidate.id === params[param.id])
+      || param.options.find((candidate) => candidate.id === param.default);
+    values[param.id] = option.text;
+  }
+  const extra = typeof details === 'string' && details.trim() ? ` Additional instructions: ${details.trim()}` : '';
+
+  return { prompt: preset.template.replace(/\{(\w+)\}/g, (_, key) => (key === 'details' ? extra : values[key] || '')) };
+};
+
+module.exports = { getPreset, listPresets, renderPresetPrompt };
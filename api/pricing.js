@@ -0,0 +1,16 @@
+// SERVER GENERATION PRICING
+// Credit cost of each generation mode (per image), from the same
+// pricing.json as the credit costs in types.ts.
+const PRICING = require('../pricing.json');
+
+const UPSCALE_FACTORS = Object.keys(PRICING.upscale).map(Number);
+const MAX_VARIATIONS = PRICING.maxVariations;
+
+// Credits a request costs, or null for an unsupported mode/scale
+const getGenerationCost = ({ mode, scale }) => {
+  if (mode === 'edit') return PRICING.edit;
+  if (mode === 'upscale') return PRICING.upscale[String(scale)] ?? null;
+  return null;
+};
+
+module.exports = { UPSCALE_FACTORS, MAX_VARIATIONS, getGenerationCost };
@@ -0,0 +1,20 @@
+// PROFILE LOOKUPS
+const supabaseAdmin = require('./supabaseClient.js');
+
+const DEFAULT_PLAN = 'NONE';
+
+// The user's plan tier; guests and users without a profile count as NONE
+const getUserPlanTier = async (userId) => {
+  if (!userId) return DEFAULT_PLAN;
+  const { data } = await supabaseAdmin.from('profiles').select('plan').eq('id', userId).maybeSingle();
+  return (data && data.plan) || DEFAULT_PLAN;
+};
+
+// Admin tools are gated on profiles.role
+const isAdmin = async (userId) => {
+  if (!userId) return false;
+  const { data } = await supabaseAdmin.from('profiles').select('role').eq('id', userId).maybeSingle();
+  return Boolean(data) && data.role === 'ADMIN';
+};
+
+module.exports = { getUserPlanTier, isAdmin };
@@ -0,0 +1,134 @@
+// GEMINI IMAGE PROVIDER
+const { GoogleGenAI } = require('@google/genai');
+const { createModerationError } = require('../moderation.js');
+
+const PRIMARY_MODEL = 'gemini-2.5-flash-image';
+const FALLBACK_MODEL = 'gemini-2.0-flash-exp';
+
+// Gemini harm categories -> our moderation categories
+const HARM_CATEGORIES = {
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: 'sexual',
+  HARM_CATEGORY_HARASSMENT: 'hate',
+  HARM_CATEGORY_HATE_SPEECH: 'hate',
+  HARM_CATEGORY_DANGEROUS_CONTENT: 'dangerous',
+  HARM_CATEGORY_CIVIC_INTEGRITY: 'other',
+};
+// Finish reasons that mean the output was withheld, not that generation failed
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
+
+const categoryOf = (ratings = []) => {
+  const flagged = ratings.find((rating) => rating.blocked) || ratings.find((rating) => ['HIGH', 'MEDIUM'].includes(rating.probability));
+  return (flagged && HARM_CATEGORIES[flagged.category]) || 'other';
+};
+
+// Returns a SAFETY_BLOCKED error when the prompt or the output was blocked
+const findSafetyBlock = (response) => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    return createModerationError({ code: 'SAFETY_BLOCKED', category: categoryOf(feedback.safetyRatings), reason: `prompt:${feedback.blockReason}` });
+  }
+  const candidate = response.candidates?.[0];
+  if (candidate && BLOCKING_FINISH_REASONS.includes(candidate.finishReason)) {
+    return createModerationError({ code: 'SAFETY_BLOCKED', category: categoryOf(candidate.safetyRatings), reason: `output:${candidate.finishReason}` });
+  }
+  return null;
+};
+
+// Accept any of the key names used across our deployments
+const resolveApiKey = (env) => env.API_KEY || env.GEMINI_API_KEY || env.GOOGLE_API_KEY || '';
+
+const createGeminiProvider = (env = process.env) => {
+  const apiKey = resolveApiKey(env);
+
+  return {
+    name: 'gemini',
+
+    capabilities: {
+      requiresNetwork: true,
+      inputMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    },
+
+    isConfigured: () => Boolean(apiKey),
+
+    generate: async ({ imageBase64, mimeType, maskBase64, prompt }) => {
+      const ai = new GoogleGenAI({ apiKey });
+
+      const parts = maskBase64
+        ? [
+            { inlineData: { data: imageBase64, mimeType } },
+            { inlineData: { data: maskBase64, mimeType: 'image/png' } },
+            { text: `${prompt}\n\nThe second image is a mask. Only change the areas that are white in the mask and keep everything else exactly as it is in the first image.` }
+          ]
+        : [
+            { inlineData: { data: imageBase64, mimeType } },
+            { text: prompt }
+          ];
+
+      let response;
+      try {
+        response = await ai.models.generateContent({
+          model: PRIMARY_MODEL,
+          contents: [{ role: 'user', parts: parts }]
+        });
+      } catch (primaryError) {
+        console.warn(`Primary model failed (${primaryError.status || 'unknown'}), attempting fallback...`);
+        if (primaryError.response) {
+          console.error("Primary Error Body:", JSON.stringify(primaryError.response, null, 2));
+        }
+        response = await ai.models.generateContent({
+          model: FALLBACK_MODEL,
+          contents: [{ role: 'user', parts: parts }]
+        });
+      }
+
+      const blocked = findSafetyBlock(response);
+      if (blocked) throw blocked;
+
+      let outputBase64 = null;
+      let outputMimeType = null;
+      let text = "";
+
+      if (response.candidates?.[0]?.content?.parts) {
+        for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData) {
+            outputBase64 = part.inlineData.data;
+            outputMimeType = part.inlineData.mimeType || null;
+          } else if (part.text) {
+            text += part.text;
+          }
+        }
+      }
+
+      // Reported to the user as a no-change outcome, not as a failure
+      if (!outputBase64 && !text) {
+        console.warn("Empty response from Gemini:", JSON.stringify(response, null, 2));
+      }
+
+      return { imageBase64: outputBase64, mimeType: outputMimeType, text };
+    },
+
+    // Translates SDK errors into an HTTP status and user-facing message.
+    // Returns null for errors we have no specific mapping for. Safety blocks
+    // never reach here: generate throws them as moderation errors.
+    mapError: (error) => {
+      const msg = (error.message || "").toLowerCase();
+      const status = error.status || 500;
+
+      if (status === 400 || msg.includes("invalid_argument")) {
+        return { status: 400, error: "The AI could not process this image. It may be too complex or the format is unsupported." };
+      }
+      if (status === 403 || msg.includes("permission_denied")) {
+        return { status: 500, error: "Server authentication with AI provider failed. Check API Key permissions." };
+      }
+      if (status === 429 || msg.includes("resource_exhausted")) {
+        return { status: 503, error: "AI System is currently overloaded. Please try again in 1 minute." };
+      }
+      if (status === 503 || msg.includes("unavailable")) {
+        return { status: 503, error: "AI Service is temporarily unavailable. Please try again." };
+      }
+      return null;
+    }
+  };
+};
+
+module.exports = { createGeminiProvider };
@@ -0,0 +1,32 @@
+// IMAGE PROVIDER REGISTRY
+// Every provider exposes the same shape:
+//   name          - identifier used in logs and IMAGE_PROVIDER
+//   capabilities  - static feature flags the routes can check
+//   isConfigured  - () => boolean, false when required secrets are missing
+//   generate      - ({ imageBase64, mimeType, maskBase64, prompt, variation }) => { imageBase64, mimeType, text }
+//                   variation is the candidate's index when several are requested at once;
+//                   maskBase64 (PNG, white = change) is a hint, the caller composites the result;
+//                   throws a SAFETY_BLOCKED moderation error (api/moderation.js) when its filters refuse.
+//                   imageBase64 is null when the model only answered in text (a no-change outcome)
+//   mapError      - (error) => { status, error } | null
+const { createGeminiProvider } = require('./gemini.js');
+const { createMockProvider } = require('./mock.js');
+
+const PROVIDERS = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+const DEFAULT_PROVIDER = 'gemini';
+
+// Select the provider via IMAGE_PROVIDER (e.g. IMAGE_PROVIDER=mock for local work)
+const getImageProvider = (env = process.env) => {
+  const name = (env.IMAGE_PROVIDER || DEFAULT_PROVIDER).trim().toLowerCase();
+  const factory = PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown IMAGE_PROVIDER "${name}". Expected one of: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return factory(env);
+};
+
+module.exports = { getImageProvider };
@@ -0,0 +1,74 @@
+// LOCAL MOCK IMAGE PROVIDER
+// Deterministic stand-in for development, demos and integration tests.
+// Needs no API key and no network: it tints the input with a colour derived
+// from the prompt (and variation index) and stamps a "MOCK" banner, so the
+// same input always produces the same output. A prompt containing
+// "[mock:blocked]" simulates a provider safety block, "[mock:text]" a
+// text-only answer.
+const crypto = require('crypto');
+const sharp = require('sharp');
+const { createModerationError } = require('../moderation.js');
+
+const promptColor = (prompt, variation = 0) => {
+  const hash = crypto.createHash('sha1').update(variation ? `${prompt || ''}#${variation}` : (prompt || '')).digest();
+  return { r: hash[0], g: hash[1], b: hash[2] };
+};
+
+const bannerSvg = (width, height) => {
+  const fontSize = Math.max(12, Math.round(width / 12));
+  return Buffer.from(
+    `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">` +
+      `<rect x="0" y="${height - fontSize * 2}" width="${width}" height="${fontSize * 2}" fill="black" fill-opacity="0.5"/>` +
+      `<text x="50%" y="${height - fontSize * 0.6}" font-family="sans-serif" font-size="${fontSize}" fill="white" text-anchor="middle">MOCK</text>` +
+    `</svg>`
+  );
+};
+
+const createMockProvider = (env = process.env) => {
+  const delayMs = parseInt(env.MOCK_PROVIDER_DELAY_MS || '0', 10) || 0;
+
+  return {
+    name: 'mock',
+
+    capabilities: {
+      requiresNetwork: false,
+      inputMimeTypes: ['image/jpeg', 'image/png', 'image/webp'],
+    },
+
+    isConfigured: () => true,
+
+    generate: async ({ imageBase64, prompt, variation = 0 }) => {
+      if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+      if ((prompt || '').includes('[mock:blocked]')) {
+        throw createModerationError({ code: 'SAFETY_BLOCKED', category: 'other', reason: 'mock:blocked' });
+      }
+      if ((prompt || '').includes('[mock:text]')) {
+        return { imageBase64: null, mimeType: null, text: 'Mock provider: please describe the change you want.' };
+      }
+
+      const input = sharp(Buffer.from(imageBase64, 'base64'));
+      const { width, height } = await input.metadata();
+
+      const output = await input
+        .tint(promptColor(prompt, variation))
+        .composite([{ input: bannerSvg(width, height), top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+
+      return {
+        imageBase64: output.toString('base64'),
+        mimeType: 'image/png',
+        text: `Mock transformation applied for prompt: "${prompt}"`
+      };
+    },
+
+    mapError: (error) => {
+      if ((error.message || '').includes('unsupported image format')) {
+        return { status: 400, error: "The mock provider could not decode this image." };
+      }
+      return null;
+    }
+  };
+};
+
+module.exports = { createMockProvider };
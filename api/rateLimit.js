@@ -0,0 +1,68 @@
+// RATE LIMITING
+// Fixed-window limits per route policy, counted in the counter store.
+// Logged-in requests are counted per user, everything else per client IP.
+// Every limited response carries the RateLimit-Limit / -Remaining / -Reset
+// headers; a refused one answers 429 with Retry-After and
+//   { error, code: 'RATE_LIMITED', retryAfter }.
+// If the counter store is unreachable requests are let through: an outage
+// there must not take the API down with it.
+const { getAuthenticatedUser } = require('./auth.js');
+const { getUserPlanTier } = require('./profiles.js');
+const { getPlan } = require('./plans.js');
+
+// Guests also have a daily preview allowance (api/guests.js)
+const GUEST_GENERATIONS_PER_MINUTE = 3;
+
+// limit: a number, or ({ user, planTier }) => number for plan-aware policies
+const POLICIES = {
+  // Each call can cost a provider request; paid plans with Faster Processing get more
+  generate: {
+    windowSeconds: 60,
+    limit: ({ user, planTier }) => (user ? getPlan(planTier).generationsPerMinute : GUEST_GENERATIONS_PER_MINUTE)
+  },
+  // The Generator polls every 1.5s; leaves room for a few tabs
+  jobStatus: { windowSeconds: 60, limit: 120 },
+  // Every call reaches Stripe
+  checkout: { windowSeconds: 60, limit: 10 },
+  images: { windowSeconds: 60, limit: 120 },
+  download: { windowSeconds: 60, limit: 30 },
+  guest: { windowSeconds: 60, limit: 20 },
+};
+
+const setRateLimitHeaders = (res, { limit, count, resetsAt }) => {
+  res.set('RateLimit-Limit', String(limit));
+  res.set('RateLimit-Remaining', String(Math.max(0, limit - count)));
+  res.set('RateLimit-Reset', String(Math.max(0, Math.ceil((Date.parse(resetsAt) - Date.now()) / 1000))));
+};
+
+const createRateLimiter = ({ counterStore }) => (policyName) => {
+  const policy = POLICIES[policyName];
+  if (!policy) throw new Error(`Unknown rate limit policy "${policyName}".`);
+
+  return async (req, res, next) => {
+    try {
+      const user = await getAuthenticatedUser(req);
+      const limit = typeof policy.limit === 'function'
+        ? policy.limit({ user, planTier: await getUserPlanTier(user ? user.id : null) })
+        : policy.limit;
+      const subject = user ? `user:${user.id}` : `ip:${req.ip}`;
+
+      const use = await counterStore.consume(`rate:${policyName}:${subject}`, { limit, windowSeconds: policy.windowSeconds });
+      setRateLimitHeaders(res, use);
+      if (use.allowed) return next();
+
+      const retryAfter = Math.max(1, Math.ceil((Date.parse(use.resetsAt) - Date.now()) / 1000));
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        error: `Too many requests. Please try again in ${retryAfter} second${retryAfter === 1 ? '' : 's'}.`,
+        code: 'RATE_LIMITED',
+        retryAfter
+      });
+    } catch (err) {
+      console.error(`Rate limiter (${policyName}) unavailable, letting the request through:`, err.message);
+      return next();
+    }
+  };
+};
+
+module.exports = { createRateLimiter };
@@ -0,0 +1,33 @@
+// ADMIN ROUTES
+// Only users whose profile role is ADMIN; everyone else gets 404.
+const express = require('express');
+const { getAuthenticatedUser } = require('../auth.js');
+const { isAdmin } = require('../profiles.js');
+const { listModerationIncidents } = require('../moderation.js');
+
+const MAX_INCIDENTS = 200;
+
+const createAdminRouter = () => {
+  const router = express.Router();
+
+  // Recent blocked requests, newest first
+  router.get('/api/admin/moderation-incidents', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user || !(await isAdmin(user.id))) {
+          return res.status(404).json({ error: 'API route not found' });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit || '100', 10) || 100, MAX_INCIDENTS);
+      try {
+          const incidents = await listModerationIncidents({ limit });
+          res.json({ success: true, incidents });
+      } catch (err) {
+          console.error("Load moderation incidents error:", err);
+          res.status(500).json({ error: "Could not load moderation incidents." });
+      }
+  });
+
+  return router;
+};
+
+module.exports = { createAdminRouter };
@@ -0,0 +1,113 @@
+// STRIPE CHECKOUT ROUTES
+const express = require('express');
+const stripe = require('../stripeClient.js');
+const { getAuthenticatedUser } = require('../auth.js');
+const supabaseAdmin = require('../supabaseClient.js');
+const { completeCheckout, resolveSessionUserId } = require('../fulfillment.js');
+const { getPlan, getCheckoutPriceId } = require('../plans.js');
+
+// Where Stripe sends the customer back to. APP_URL wins so a request cannot
+// choose arbitrary redirect targets in production.
+const getAppUrl = (req) => (process.env.APP_URL || req.headers.origin || `${req.protocol}://${req.get('host')}`).replace(/\/$/, '');
+
+const createCheckoutRouter = () => {
+  const router = express.Router();
+
+  router.post('/api/checkout', async (req, res) => {
+      const { planId, imageId } = req.body;
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to purchase." });
+
+      const plan = getPlan(planId);
+      if (!plan) return res.status(400).json({ error: "Unknown plan." });
+
+      const priceId = getCheckoutPriceId(plan.id);
+      if (!priceId) {
+          console.error(`CRITICAL ERROR: No Stripe price configured for plan ${plan.id} (STRIPE_PRICE_${plan.id}).`);
+          return res.status(500).json({ error: "Payment system configuration error." });
+      }
+
+      try {
+          // An image can only be attached to a purchase by its owner
+          if (imageId) {
+              const { data: image } = await supabaseAdmin
+                  .from('images')
+                  .select('id')
+                  .eq('id', imageId)
+                  .eq('user_id', user.id)
+                  .maybeSingle();
+              if (!image) return res.status(404).json({ error: "Image not found." });
+          }
+
+          const { data: profile } = await supabaseAdmin
+              .from('profiles')
+              .select('stripe_customer_id')
+              .eq('id', user.id)
+              .single();
+
+          const metadata = { userId: user.id, planId: plan.id, ...(imageId ? { imageId } : {}) };
+          const appUrl = getAppUrl(req);
+
+          const session = await stripe.checkout.sessions.create({
+              mode: plan.isSubscription ? 'subscription' : 'payment',
+              line_items: [{ price: priceId, quantity: 1 }],
+              client_reference_id: user.id,
+              metadata,
+              ...(plan.isSubscription ? { subscription_data: { metadata } } : {}),
+              ...(profile?.stripe_customer_id
+                  ? { customer: profile.stripe_customer_id }
+                  : { customer_email: user.email }),
+              success_url: `${appUrl}/#/payment-success?session_id={CHECKOUT_SESSION_ID}`,
+              cancel_url: `${appUrl}/#/${imageId ? 'generate' : 'dashboard'}`
+          });
+
+          res.json({ success: true, url: session.url, sessionId: session.id });
+      } catch (err) {
+          console.error("Checkout creation error:", err);
+          res.status(500).json({ error: "Could not start checkout. Please try again." });
+      }
+  });
+
+  router.post('/api/verify-checkout', async (req, res) => {
+      const { sessionId } = req.body;
+      const user = await getAuthenticatedUser(req);
+      if (!user || !sessionId) return res.status(400).json({ error: "Invalid request" });
+
+      try {
+          const session = await stripe.checkout.sessions.retrieve(sessionId, { expand: ['line_items'] });
+          if (session.payment_status !== 'paid') return res.status(400).json({ error: "Not paid" });
+
+          // The session was bought for (or already fulfilled to) another account
+          const ownerId = await resolveSessionUserId(session);
+          if (ownerId && ownerId !== user.id) {
+              return res.status(409).json({ error: "This checkout session belongs to a different account." });
+          }
+
+          const record = await completeCheckout(session, user.id);
+
+          if (record.userId !== user.id) {
+              return res.status(409).json({ error: "This checkout session belongs to a different account." });
+          }
+
+          // Repeat calls return the original result without granting again.
+          // Return client_reference_id for frontend to handle specific item unlocking
+          res.json({ 
+              success: true, 
+              addedCredits: record.creditsGranted,
+              clientReferenceId: record.clientReferenceId,
+              unlockedImageId: session.metadata?.imageId || null,
+              alreadyProcessed: !record.newlyProcessed
+          });
+      } catch (err) {
+          console.error("Verification error:", err);
+          if (err.code === 'UNKNOWN_PLAN') {
+              return res.status(422).json({ error: "Payment received, but it does not match a known plan. Please contact support so we can credit your account." });
+          }
+          res.status(500).json({ error: "Verification failed" });
+      }
+  });
+
+  return router;
+};
+
+module.exports = { createCheckoutRouter };
@@ -0,0 +1,33 @@
+// CREDIT CYCLE ROUTES
+const express = require('express');
+const { runDueCreditCycles } = require('../creditCycles.js');
+const { hasBearerSecret } = require('../auth.js');
+
+const createCreditsRouter = () => {
+  const router = express.Router();
+
+  // Starts the credit cycles of renewals whose invoice.paid webhook never
+  // arrived. Run daily by the Vercel cron in vercel.json; requires
+  // Authorization: Bearer $CRON_SECRET.
+  router.all('/api/credits/cycle', async (req, res) => {
+      const secret = process.env.CRON_SECRET;
+      if (!secret) {
+          return res.status(503).json({ error: "Credit cycles are not configured." });
+      }
+      if (!hasBearerSecret(req, [secret])) {
+          return res.status(401).json({ error: "Unauthorized." });
+      }
+
+      try {
+          const { checked, started } = await runDueCreditCycles();
+          res.json({ success: true, checked, started });
+      } catch (err) {
+          console.error("Credit cycle run error:", err);
+          res.status(500).json({ error: "Credit cycle run failed." });
+      }
+  });
+
+  return router;
+};
+
+module.exports = { createCreditsRouter };
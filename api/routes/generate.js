@@ -0,0 +1,263 @@
+// IMAGE GENERATION ROUTES
+const crypto = require('crypto');
+const express = require('express');
+const { getAuthenticatedUser } = require('../auth.js');
+const { reserveCredits, releaseReservation } = require('../credits.js');
+const { UPSCALE_FACTORS, MAX_VARIATIONS, getGenerationCost } = require('../pricing.js');
+const { planUpscale, MAX_OUTPUT_EDGE } = require('../upscaler.js');
+const { decodeDataUrl, prepareUpload, fitStoredImage } = require('../uploads.js');
+const { extensionFor } = require('../imageInfo.js');
+const { UUID_PATTERN, loadEditSource } = require('../images.js');
+const { prepareMask } = require('../inpainting.js');
+const { getPreset, listPresets, renderPresetPrompt } = require('../presets.js');
+const { getUserPlanTier } = require('../profiles.js');
+const { getPlan } = require('../plans.js');
+const { MAX_PROMPT_LENGTH, screenPrompt, logModerationIncident, toModerationBody } = require('../moderation.js');
+
+const MODES = ['edit', 'upscale'];
+
+// Below every plan's queuePriority (plans.json): free previews wait for paid work
+const GUEST_QUEUE_PRIORITY = 0;
+
+// What the gallery shows as the record's prompt (never a preset's template)
+const recordPromptFor = ({ mode, scale, presetId, prompt }) => {
+  if (mode === 'upscale') return `Upscale ${scale}x`;
+  if (!presetId) return prompt;
+  const { name } = getPreset(presetId);
+  return prompt ? `${name}: ${prompt}` : name;
+};
+
+const createGenerateRouter = ({ imageProvider, objectStore, jobStore, guestAccess, onJobQueued }) => {
+  const router = express.Router();
+
+  // Style preset catalog for the Generator (names and parameter choices only)
+  router.get('/api/presets', (req, res) => {
+    res.json({ success: true, presets: listPresets() });
+  });
+
+  // Two modes:
+  //   edit    - prompt-driven transformation by the image provider (default)
+  //   upscale - exact 2x/4x enlargement, no prompt; priced per scale factor
+  // Edits may ask for `count` variations (up to MAX_VARIATIONS), charged per
+  // image delivered and linked by a shared groupId.
+  // Logged-in users can pass `parentImageId` instead of an image to keep
+  // editing one of their saved results; the new records point back at it.
+  // Edits may carry `maskBase64` (white = change, black = keep); outputs
+  // are composited back onto the source outside the mask.
+  // Edits may name a style preset (`presetId`, `presetParams`); the prompt
+  // is then built from its template and `prompt` only adds details.
+  // Guests send their token as X-Guest-Token (see api/guests.js) and spend
+  // one free preview from today's allowance (429 GUEST_QUOTA_EXCEEDED when
+  // it is used up); the preview is given back if no image is delivered.
+  // Prompts are screened before anything is reserved or queued; blocked
+  // requests get 400 with a `code` (see api/moderation.js) and cost nothing.
+  // The request is validated and credits are reserved here; the work itself
+  // is queued (202 + jobId) and run by the job worker. Poll GET /api/jobs/:id.
+  router.post('/api/generate', async (req, res) => {
+    // Reservations (or the guest's preview) still held; released if anything below throws
+    let reservationIds = [];
+    let guestQuota = [];
+
+    try {
+        const { imageBase64, prompt, mode = 'edit' } = req.body;
+        const parentImageId = req.body.parentImageId || null;
+        const maskBase64 = req.body.maskBase64 || null;
+        const presetId = req.body.presetId || null;
+        const scale = mode === 'upscale' ? Number(req.body.scale) : null;
+        const count = req.body.count === undefined ? 1 : Number(req.body.count);
+
+        // 1. VALIDATION: Mode & Provider Configuration
+        if (!MODES.includes(mode)) {
+            return res.status(400).json({ error: `Unknown mode "${mode}". Expected one of: ${MODES.join(', ')}.` });
+        }
+        const cost = getGenerationCost({ mode, scale });
+        if (cost === null) {
+            return res.status(400).json({ error: `Unsupported scale. Choose ${UPSCALE_FACTORS.map((f) => `${f}x`).join(' or ')}.` });
+        }
+        if (!Number.isInteger(count) || count < 1 || count > MAX_VARIATIONS) {
+            return res.status(400).json({ error: `count must be a whole number from 1 to ${MAX_VARIATIONS}.` });
+        }
+        if (mode === 'upscale' && count > 1) {
+            return res.status(400).json({ error: "Upscales are exact, so only one image can be requested." });
+        }
+
+        if (mode === 'edit' && !imageProvider.isConfigured()) {
+            console.error(`CRITICAL ERROR: Image provider "${imageProvider.name}" is missing its configuration.`);
+            return res.status(500).json({ 
+                error: "Server configuration error: AI API Key is missing. Please contact support." 
+            });
+        }
+
+        // 2. VALIDATION: Payload Data
+        if (parentImageId) {
+            if (typeof parentImageId !== 'string' || !UUID_PATTERN.test(parentImageId)) {
+                return res.status(400).json({ error: "Invalid parentImageId." });
+            }
+        } else {
+            if (!imageBase64) {
+              return res.status(400).json({ error: "No image data provided." });
+            }
+            if (typeof imageBase64 !== 'string') {
+                return res.status(400).json({ error: "Invalid image format. Expected base64 string." });
+            }
+        }
+        if (prompt !== undefined && prompt !== null && (typeof prompt !== 'string' || prompt.length > MAX_PROMPT_LENGTH)) {
+            return res.status(400).json({ error: `The prompt must be text of at most ${MAX_PROMPT_LENGTH} characters.` });
+        }
+        if (presetId && mode !== 'edit') {
+            return res.status(400).json({ error: "Style presets can only be used with edits." });
+        }
+        const rendered = presetId ? renderPresetPrompt(presetId, req.body.presetParams || {}, prompt) : { prompt };
+        if (rendered.error) {
+            return res.status(400).json({ error: rendered.error });
+        }
+        if (mode === 'edit' && !rendered.prompt) {
+          return res.status(400).json({ error: "No prompt provided." });
+        }
+        if (maskBase64 && (mode !== 'edit' || typeof maskBase64 !== 'string')) {
+            return res.status(400).json({ error: mode === 'edit' ? "Invalid mask format. Expected base64 string." : "Masks can only be used with edits." });
+        }
+
+        // 3. SANITIZATION
+        if (!parentImageId && imageBase64.replace(/^data:image\/\w+;base64,/, "").length < 100) {
+            return res.status(400).json({ error: "Image file is too small or corrupted." });
+        }
+
+        // 4. AUTHENTICATION & UPLOAD LIMITS
+        // Format, size and resolution are checked against the user's plan
+        const user = await getAuthenticatedUser(req);
+        if (!user && count > 1) {
+            return res.status(401).json({ error: "Please log in to generate multiple variations." });
+        }
+        if (!user && parentImageId) {
+            return res.status(401).json({ error: "Please log in to edit a saved image." });
+        }
+        if (!user && !guestAccess.enabled) {
+            return res.status(503).json({ error: "Free previews are unavailable right now. Please log in to generate." });
+        }
+        const guestId = user ? null : guestAccess.verifyToken(req.headers['x-guest-token']);
+        if (!user && !guestId) {
+            return res.status(401).json({ error: "Your guest session has expired. Please reload the page.", code: 'GUEST_TOKEN_REQUIRED' });
+        }
+
+        // 5. CONTENT SCREENING
+        // Only the user's own text: preset templates are ours
+        const blocked = mode === 'edit' ? screenPrompt(prompt) : null;
+        if (blocked) {
+            await logModerationIncident({ userId: user ? user.id : null, error: blocked, prompt });
+            return res.status(400).json(toModerationBody(blocked));
+        }
+
+        const planTier = await getUserPlanTier(user ? user.id : null);
+
+        let source;
+        if (parentImageId) {
+            // The parent's output is ours already; only its size has to fit the plan
+            const parent = await loadEditSource(objectStore, user.id, parentImageId);
+            if (parent.error) {
+                return res.status(parent.status).json({ error: parent.error });
+            }
+            source = await fitStoredImage(parent.buffer, planTier);
+        } else {
+            source = decodeDataUrl(imageBase64);
+        }
+
+        const { upload, status: uploadStatus, error: uploadError } = await prepareUpload(source, planTier);
+        if (uploadError) {
+            return res.status(uploadStatus).json({ error: uploadError });
+        }
+
+        if (mode === 'edit' && !imageProvider.capabilities.inputMimeTypes.includes(upload.mimeType)) {
+            return res.status(415).json({ error: `The image service does not accept ${upload.mimeType} images. Please use a JPG.` });
+        }
+
+        if (mode === 'upscale' && !(await planUpscale(upload.buffer, scale))) {
+            return res.status(400).json({ error: `A ${scale}x upscale of this image would exceed ${MAX_OUTPUT_EDGE}px. Please use a smaller image or a lower scale.` });
+        }
+
+        const { mask, status: maskStatus, error: maskError } = maskBase64 ? await prepareMask(decodeDataUrl(maskBase64), upload) : {};
+        if (maskError) {
+            return res.status(maskStatus).json({ error: maskError });
+        }
+
+        // 6. CREDIT RESERVATION (or the guest's free preview)
+        // One reservation per requested image, held (not spent) until that image succeeds
+        if (!user) {
+            const preview = await guestAccess.consumePreview(guestId, req.ip);
+            if (preview.error) {
+                return res.status(preview.status).json({ error: preview.error, code: preview.code, resetsAt: preview.resetsAt });
+            }
+            guestQuota = preview.quota;
+        } else {
+            const reason = mode === 'upscale' ? `upscale_${scale}x` : 'generation';
+            for (let i = 0; i < count; i++) {
+                const reservationId = await reserveCredits(user.id, cost, { reason });
+                if (!reservationId) {
+                    await Promise.all(reservationIds.map((id) => releaseReservation(id)));
+                    reservationIds = [];
+                    return res.status(403).json({ error: "Insufficient credits. Please upgrade or buy a pack." });
+                }
+                reservationIds.push(reservationId);
+            }
+        }
+
+        // 7. QUEUE THE JOB
+        const jobId = crypto.randomUUID();
+        const inputKey = `job-inputs/${jobId}.${extensionFor(upload.mimeType)}`;
+        await objectStore.put(inputKey, upload.buffer, upload.mimeType);
+        const maskKey = mask ? `job-inputs/${jobId}-mask.png` : null;
+        if (mask) await objectStore.put(maskKey, mask, 'image/png');
+
+        await jobStore.create({
+            id: jobId,
+            userId: user ? user.id : null,
+            status: 'queued',
+            priority: user ? getPlan(planTier).queuePriority : GUEST_QUEUE_PRIORITY,
+            request: {
+                mode,
+                prompt: rendered.prompt || null,
+                scale,
+                count,
+                cost,
+                inputKey,
+                maskKey,
+                inputWidth: upload.width,
+                inputHeight: upload.height,
+                parentImageId,
+                presetId,
+                // Stored on the image records the worker creates
+                recordPrompt: recordPromptFor({ mode, scale, presetId, prompt }),
+                guestId,
+                guestQuota
+            },
+            reservationIds,
+            progress: { stage: 'queued' }
+        });
+        // The worker owns the reservations from here on
+        reservationIds = [];
+        guestQuota = [];
+        await onJobQueued();
+
+        console.log(`Queued ${mode} job ${jobId} (${count} image(s))`);
+        res.status(202).json({ success: true, jobId, status: 'queued' });
+
+    } catch (serverError) {
+      console.error("General Server Error:", serverError);
+
+      for (const reservationId of reservationIds) {
+          await releaseReservation(reservationId).catch((releaseError) => {
+              console.error("Failed to release credit reservation:", releaseError);
+          });
+      }
+      await guestAccess.releasePreview(guestQuota);
+
+      res.status(500).json({ 
+          error: serverError.message || "An unexpected internal server error occurred." 
+      });
+    }
+  });
+
+  return router;
+};
+
+module.exports = { createGenerateRouter };
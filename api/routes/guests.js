@@ -0,0 +1,52 @@
+// GUEST ROUTES
+const crypto = require('crypto');
+const express = require('express');
+const { getAuthenticatedUser } = require('../auth.js');
+const { claimGuestPreviews } = require('../guests.js');
+
+const createGuestsRouter = ({ guestAccess, objectStore }) => {
+  const router = express.Router();
+
+  // Guest access is off when GUEST_TOKEN_SECRET is missing in production
+  router.use('/api/guest', (req, res, next) => {
+      if (!guestAccess.enabled) return res.status(503).json({ error: "Free previews are unavailable right now." });
+      next();
+  });
+
+  // Issues a guest token, or renews the one the browser already holds
+  // (same guest, new expiry), and reports today's remaining previews.
+  router.post('/api/guest/token', async (req, res) => {
+      const guestId = guestAccess.verifyToken(req.body.token) || crypto.randomUUID();
+      const token = guestAccess.issueToken(guestId);
+
+      try {
+          const previewsLeft = await guestAccess.remainingPreviews(guestId, req.ip);
+          res.json({ success: true, token, previewsLeft, dailyPreviews: guestAccess.dailyPreviews });
+      } catch (err) {
+          console.error("Guest allowance error:", err);
+          res.status(500).json({ error: "Could not load the free preview allowance." });
+      }
+  });
+
+  // Moves the previews made with a guest token into the logged-in account
+  router.post('/api/guest/claim', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to keep your previews." });
+
+      const guestId = guestAccess.verifyToken(req.body.token);
+      if (!guestId) return res.status(400).json({ error: "Invalid or expired guest token." });
+
+      try {
+          const claimed = await claimGuestPreviews(objectStore, user.id, guestId);
+          if (claimed > 0) console.log(`Moved ${claimed} guest preview(s) into account ${user.id}`);
+          res.json({ success: true, claimed });
+      } catch (err) {
+          console.error("Guest claim error:", err);
+          res.status(500).json({ error: "Could not move your previews into your account." });
+      }
+  });
+
+  return router;
+};
+
+module.exports = { createGuestsRouter };
@@ -0,0 +1,193 @@
+// IMAGE ROUTES
+const express = require('express');
+const { getAuthenticatedUser } = require('../auth.js');
+const {
+  UUID_PATTERN,
+  decodeCursor,
+  createImageRecord,
+  listImages,
+  getImageRecord,
+  getEditHistory,
+  deleteImageRecord,
+  unlockImageWithCredit
+} = require('../images.js');
+const { getDownloadableGeneration } = require('../generations.js');
+const { decodeDataUrl, prepareUpload } = require('../uploads.js');
+const { getUserPlanTier } = require('../profiles.js');
+const { getPreset } = require('../presets.js');
+
+const createImagesRouter = ({ objectStore }) => {
+  const router = express.Router();
+
+  // Image and generation ids are UUIDs; anything else cannot exist
+  router.param('id', (req, res, next, id) => {
+      if (!UUID_PATTERN.test(id)) return res.status(404).json({ error: "Image not found." });
+      next();
+  });
+
+  // Gallery listing: thumbnails and metadata, newest first.
+  // Pass the returned nextCursor back as ?cursor= for the following page.
+  // ?preset= limits the listing to one style preset's results.
+  router.get('/api/images', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to view your images." });
+
+      const cursor = req.query.cursor ? decodeCursor(String(req.query.cursor)) : null;
+      if (req.query.cursor && !cursor) {
+          return res.status(400).json({ error: "Invalid cursor." });
+      }
+
+      const presetId = req.query.preset ? String(req.query.preset) : null;
+      if (presetId && !getPreset(presetId)) {
+          return res.status(400).json({ error: `Unknown preset "${presetId}".` });
+      }
+
+      try {
+          const { images, nextCursor } = await listImages(objectStore, user.id, { cursor, limit: req.query.limit, presetId });
+          res.json({ success: true, images, nextCursor });
+      } catch (err) {
+          console.error("List images error:", err);
+          res.status(500).json({ error: "Could not load images." });
+      }
+  });
+
+  // Full record with signed URLs for the full-size images
+  router.get('/api/images/:id', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to view your images." });
+
+      try {
+          const image = await getImageRecord(objectStore, user.id, req.params.id);
+          if (!image) return res.status(404).json({ error: "Image not found." });
+          res.json({ success: true, image });
+      } catch (err) {
+          console.error("Load image error:", err);
+          res.status(500).json({ error: "Could not load image." });
+      }
+  });
+
+  // The edit tree the image belongs to: its root and every edit made from
+  // it, oldest first. Each summary's parentImageId links it into the tree.
+  router.get('/api/images/:id/history', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to view your images." });
+
+      try {
+          const images = await getEditHistory(objectStore, user.id, req.params.id);
+          if (!images) return res.status(404).json({ error: "Image not found." });
+          res.json({ success: true, images });
+      } catch (err) {
+          console.error("Load edit history error:", err);
+          res.status(500).json({ error: "Could not load edit history." });
+      }
+  });
+
+  // Saves the record for a generation. The source image is uploaded to the
+  // object store; the generated output is already there.
+  router.post('/api/images', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to save images." });
+
+      const { id, originalImageBase64, generationId, prompt, timestamp } = req.body;
+      if (!originalImageBase64 || typeof originalImageBase64 !== 'string') {
+          return res.status(400).json({ error: "No image data provided." });
+      }
+
+      try {
+          // Same limits as /api/generate, so records cannot smuggle in larger files
+          const { upload, status: uploadStatus, error: uploadError } = await prepareUpload(decodeDataUrl(originalImageBase64), await getUserPlanTier(user.id));
+          if (uploadError) return res.status(uploadStatus).json({ error: uploadError });
+
+          const image = await createImageRecord(objectStore, user.id, { id, original: upload, generationId, prompt, timestamp });
+          if (!image) return res.status(404).json({ error: "Generation not found." });
+          res.status(201).json({ success: true, image });
+      } catch (err) {
+          console.error("Save image error:", err);
+          res.status(500).json({ error: "Could not save image." });
+      }
+  });
+
+  router.delete('/api/images/:id', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to delete images." });
+
+      try {
+          const deleted = await deleteImageRecord(objectStore, user.id, req.params.id);
+          if (!deleted) return res.status(404).json({ error: "Image not found." });
+          res.json({ success: true });
+      } catch (err) {
+          console.error("Delete image error:", err);
+          res.status(500).json({ error: "Could not delete image." });
+      }
+  });
+
+  // Unlocks an image by spending one credit
+  router.post('/api/images/:id/unlock', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to unlock images." });
+
+      try {
+          const outcome = await unlockImageWithCredit(user.id, req.params.id);
+
+          if (outcome === 'not_found') {
+              return res.status(404).json({ error: "Image not found." });
+          }
+          if (outcome === 'insufficient_credits') {
+              return res.status(403).json({ error: "Insufficient credits. Please upgrade or buy a pack." });
+          }
+
+          res.json({ success: true, imageId: req.params.id, alreadyUnlocked: outcome === 'already_unlocked' });
+      } catch (err) {
+          console.error("Unlock error:", err);
+          res.status(500).json({ error: "Could not unlock image. Please try again." });
+      }
+  });
+
+  // Releases the clean (unwatermarked) output of an unlocked generation
+  router.get('/api/generations/:id/download', async (req, res) => {
+      const user = await getAuthenticatedUser(req);
+      if (!user) return res.status(401).json({ error: "Please log in to download images." });
+
+      try {
+          const generation = await getDownloadableGeneration(user.id, req.params.id);
+          if (!generation) return res.status(404).json({ error: "Image not found or still locked." });
+
+          const object = await objectStore.get(generation.output_key);
+          if (!object) return res.status(404).json({ error: "Image file is no longer available." });
+
+          res.set('Content-Type', generation.mime_type);
+          res.set('Content-Disposition', `attachment; filename="upscale-ai-${generation.id}.${generation.output_key.split('.').pop()}"`);
+          res.set('Cache-Control', 'private, no-store');
+          res.send(object.buffer);
+      } catch (err) {
+          console.error("Download error:", err);
+          res.status(500).json({ error: "Could not download image. Please try again." });
+      }
+  });
+
+  // Serves filesystem-store objects behind the signed URLs it issues.
+  // (Supabase Storage signs and serves its own URLs.)
+  router.get('/api/objects/*', async (req, res) => {
+      const key = req.params[0];
+      const { expires, signature } = req.query;
+      if (!objectStore.verifySignature || !objectStore.verifySignature(key, expires, signature)) {
+          return res.status(403).json({ error: "Link expired or invalid." });
+      }
+
+      try {
+          const object = await objectStore.get(key);
+          if (!object) return res.status(404).json({ error: "Object not found." });
+
+          res.set('Content-Type', object.contentType);
+          res.set('Cache-Control', 'private, max-age=300');
+          res.send(object.buffer);
+      } catch (err) {
+          console.error("Object read error:", err);
+          res.status(500).json({ error: "Could not read object." });
+      }
+  });
+
+  return router;
+};
+
+module.exports = { createImagesRouter };
@@ -0,0 +1,79 @@
+// GENERATION JOB ROUTES
+const express = require('express');
+const { getAuthenticatedUser, hasBearerSecret } = require('../auth.js');
+const { UUID_PATTERN, signKey } = require('../images.js');
+
+// vercel.json gives the function 60s (maxDuration); keep WORK_BUDGET_MS a
+// little under it. New jobs are only claimed while JOB_MAX_RUN_MS (the
+// slowest a job may take, e.g. several variations) is left; one cut off
+// anyway is retried once its lease expires.
+const WORK_BUDGET_MS = parseInt(process.env.JOB_WORK_BUDGET_MS || '55000', 10);
+const MAX_RUN_MS = parseInt(process.env.JOB_MAX_RUN_MS || '40000', 10);
+
+const createJobsRouter = ({ jobStore, jobWorker, objectStore }) => {
+  const router = express.Router();
+
+  // Drains the queue in this invocation. Called after each enqueue on
+  // serverless deployments, and every minute by the Vercel cron in
+  // vercel.json as a safety net (which sends CRON_SECRET). Registered
+  // before /api/jobs/:id so "work" is never read as a job id.
+  router.all('/api/jobs/work', async (req, res) => {
+      const secrets = [process.env.JOB_WORKER_SECRET, process.env.CRON_SECRET].filter(Boolean);
+      if (!secrets.length) {
+          return res.status(503).json({ error: "Job worker is not configured." });
+      }
+      if (!hasBearerSecret(req, secrets)) {
+          return res.status(401).json({ error: "Unauthorized." });
+      }
+
+      try {
+          const processed = await jobWorker.drain(WORK_BUDGET_MS, MAX_RUN_MS);
+          res.json({ success: true, processed });
+      } catch (err) {
+          console.error("Job worker error:", err);
+          res.status(500).json({ error: "Job worker failed." });
+      }
+  });
+
+  // Job status. Guest jobs are readable by anyone holding the (unguessable) id;
+  // a logged-in user's jobs only by that user. Queued jobs also report
+  // `queue`: { position, estimatedWaitSeconds }.
+  router.get('/api/jobs/:id', async (req, res) => {
+      if (!UUID_PATTERN.test(req.params.id)) {
+          return res.status(404).json({ error: "Job not found." });
+      }
+
+      try {
+          const job = await jobStore.get(req.params.id);
+          if (!job) return res.status(404).json({ error: "Job not found." });
+          if (job.userId) {
+              const user = await getAuthenticatedUser(req);
+              if (!user || user.id !== job.userId) return res.status(404).json({ error: "Job not found." });
+          }
+
+          let result = job.result;
+          if (result) {
+              const variations = await Promise.all(result.variations.map(async ({ imageKey, ...variation }) => ({
+                  ...variation,
+                  image: await signKey(objectStore, imageKey)
+              })));
+              result = { ...result, variations };
+          }
+
+          // Only an estimate: the job still gets its result if this fails
+          const queue = await jobWorker.describeQueue(job).catch((err) => {
+              console.warn(`Job ${job.id}: queue estimate failed:`, err.message);
+              return null;
+          });
+
+          res.json({ success: true, jobId: job.id, status: job.status, progress: job.progress, queue, result, error: job.error });
+      } catch (err) {
+          console.error("Load job error:", err);
+          res.status(500).json({ error: "Could not load job." });
+      }
+  });
+
+  return router;
+};
+
+module.exports = { createJobsRouter };
@@ -0,0 +1,145 @@
+// STRIPE WEBHOOK ROUTE
+// Fulfils purchases even if the buyer never returns to #/payment-success,
+// starts a new credit cycle on each renewal and keeps profiles.plan in sync.
+// Needs the raw request body for signature verification, so it must be
+// mounted before the JSON body parser.
+const express = require('express');
+const stripe = require('../stripeClient.js');
+const { resolvePlanByPriceId } = require('../plans.js');
+const {
+  completeCheckout,
+  resolveSessionUserId,
+  findUserIdByCustomer,
+  updateProfileBilling
+} = require('../fulfillment.js');
+const { startCreditCycle, fromUnix } = require('../creditCycles.js');
+
+// Subscription statuses that still entitle the customer to their plan
+const ENTITLED_STATUSES = ['active', 'trialing', 'past_due'];
+
+const handleCheckoutCompleted = async (session) => {
+  if (session.payment_status !== 'paid') {
+    console.log(`Checkout ${session.id} not paid yet (${session.payment_status}), waiting for async payment.`);
+    return;
+  }
+
+  const userId = await resolveSessionUserId(session);
+  if (!userId) {
+    console.warn(`Checkout ${session.id} could not be matched to an account.`);
+    return;
+  }
+
+  const record = await completeCheckout(session, userId);
+  console.log(`Checkout ${session.id} fulfilled for ${record.userId} (new: ${record.newlyProcessed}).`);
+};
+
+const handleInvoicePaid = async (invoice) => {
+  // The first invoice is fulfilled through checkout.session.completed
+  if (invoice.billing_reason === 'subscription_create') return;
+
+  const userId = await findUserIdByCustomer(invoice.customer);
+  if (!userId) {
+    console.warn(`Invoice ${invoice.id} has no matching account for customer ${invoice.customer}.`);
+    return;
+  }
+
+  // A plan change also bills a credit line for the old plan; the
+  // subscription line is the one for a known plan that is not negative
+  const lines = invoice.lines?.data || [];
+  const line = lines.find((item) => !(item.amount < 0) && resolvePlanByPriceId(item.price?.id));
+  if (!line) {
+    // Throw so Stripe retries once the catalog is fixed
+    throw new Error(`Invoice ${invoice.id} (price ${lines[0]?.price?.id || 'unknown'}) does not match a known plan.`);
+  }
+  const plan = resolvePlanByPriceId(line.price.id);
+  if (!line.period) throw new Error(`Invoice ${invoice.id} has no billing period.`);
+
+  // A renewal starts the next monthly allowance period. A plan change paid
+  // mid-period starts one too, with the new plan's allowance, and settles
+  // the old allowance the way a renewal would.
+  const cycle = await startCreditCycle(userId, plan, {
+    periodStart: fromUnix(line.period.start),
+    periodEnd: fromUnix(line.period.end),
+    source: invoice.billing_reason === 'subscription_cycle' ? 'renewal' : 'plan_change',
+    referenceId: invoice.id
+  });
+  if (!cycle) {
+    console.warn(`Invoice ${invoice.id}: account ${userId} has no profile.`);
+  } else if (cycle.newlyProcessed) {
+    console.log(`Invoice ${invoice.id}: granted ${cycle.granted} credits, rolled over ${cycle.rolledOver}, expired ${cycle.expired}.`);
+  } else {
+    console.log(`Invoice ${invoice.id}: credit cycle already started.`);
+  }
+};
+
+const handleSubscriptionChanged = async (subscription) => {
+  const userId = await findUserIdByCustomer(subscription.customer);
+  if (!userId) {
+    console.warn(`Subscription ${subscription.id} has no matching account for customer ${subscription.customer}.`);
+    return;
+  }
+
+  const plan = resolvePlanByPriceId(subscription.items?.data?.[0]?.price?.id);
+  if (!plan) console.warn(`Subscription ${subscription.id} does not match a known plan.`);
+  const entitled = ENTITLED_STATUSES.includes(subscription.status) && plan;
+
+  await updateProfileBilling(userId, {
+    plan: entitled ? plan.id : 'NONE',
+    stripe_subscription_id: entitled ? subscription.id : null,
+    subscription_status: subscription.status
+  });
+};
+
+const handleSubscriptionDeleted = async (subscription) => {
+  const userId = await findUserIdByCustomer(subscription.customer);
+  if (!userId) return;
+
+  await updateProfileBilling(userId, {
+    plan: 'NONE',
+    stripe_subscription_id: null,
+    subscription_status: 'canceled'
+  });
+};
+
+const EVENT_HANDLERS = {
+  'checkout.session.completed': handleCheckoutCompleted,
+  'checkout.session.async_payment_succeeded': handleCheckoutCompleted,
+  'invoice.paid': handleInvoicePaid,
+  'customer.subscription.updated': handleSubscriptionChanged,
+  'customer.subscription.deleted': handleSubscriptionDeleted,
+};
+
+const createStripeWebhookRouter = ({ webhookSecret = process.env.STRIPE_WEBHOOK_SECRET } = {}) => {
+  const router = express.Router();
+
+  router.post('/api/stripe/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
+      if (!webhookSecret) {
+          console.error("CRITICAL ERROR: STRIPE_WEBHOOK_SECRET is not configured.");
+          return res.status(500).json({ error: "Webhook not configured" });
+      }
+
+      let event;
+      try {
+          event = stripe.webhooks.constructEvent(req.body, req.headers['stripe-signature'], webhookSecret);
+      } catch (err) {
+          console.warn("Stripe webhook signature rejected:", err.message);
+          return res.status(400).json({ error: "Invalid signature" });
+      }
+
+      const handler = EVENT_HANDLERS[event.type];
+      if (!handler) return res.json({ received: true, ignored: true });
+
+      try {
+          await handler(event.data.object);
+          res.json({ received: true });
+      } catch (err) {
+          // A non-2xx response makes Stripe retry; all handlers are idempotent
+          console.error(`Stripe webhook ${event.type} (${event.id}) failed:`, err);
+          res.status(500).json({ error: "Webhook handler failed" });
+      }
+  });
+
+  return router;
+};
+
+module.exports = { createStripeWebhookRouter };
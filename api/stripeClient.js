@@ -0,0 +1,11 @@
+const Stripe = require('stripe');
+const dotenv = require('dotenv');
+
+dotenv.config();
+
+// Shared Stripe client for the backend (CommonJS)
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
+  apiVersion: '2023-10-16',
+});
+
+module.exports = stripe;
@@ -44,6 +44,7 @@ if (!SUPABASE_SERVICE_KEY) {
 const url = SUPABASE_URL && SUPABASE_URL.startsWith('http') ? SUPABASE_URL : `https://${SUPABASE_URL || 'example.supabase.co'}`;
 const key = SUPABASE_SERVICE_KEY || 'placeholder-service-key';
 
-const supabaseAdmin = createClient(url, key);
+// Node 20 has no global WebSocket, which supabase-js needs for its realtime client
+const supabaseAdmin = createClient(url, key, { realtime: { transport: globalThis.WebSocket || require('ws') } });
 
 module.exports = supabaseAdmin;
\ No newline at end of file
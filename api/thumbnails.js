@@ -0,0 +1,19 @@
+// GALLERY THUMBNAILS
+// Produced once at save time so gallery listings never ship full-size images.
+const sharp = require('sharp');
+
+const THUMBNAIL_MAX_SIZE = 400;
+const THUMBNAIL_QUALITY = 75;
+
+// Returns a small WebP that keeps the aspect ratio and any transparency
+const createThumbnail = async (imageBuffer) => {
+  const buffer = await sharp(imageBuffer)
+    .rotate()
+    .resize(THUMBNAIL_MAX_SIZE, THUMBNAIL_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .webp({ quality: THUMBNAIL_QUALITY })
+    .toBuffer();
+
+  return { buffer, mimeType: 'image/webp' };
+};
+
+module.exports = { createThumbnail };
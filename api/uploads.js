@@ -0,0 +1,91 @@
+// UPLOAD VALIDATION
+// Server-side mirror of the browser upload pipeline (services/imagePipeline.ts):
+// the same formats, byte limit and per-plan max resolution (maxUploadEdge in
+// plans.json) are enforced here, since the browser can be bypassed.
+const sharp = require('sharp');
+const { getPlan } = require('./plans.js');
+const { sniffMimeType } = require('./imageInfo.js');
+
+const ACCEPTED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+const FORMAT_NAMES = {
+  'image/gif': 'GIF',
+  'image/bmp': 'BMP',
+  'image/tiff': 'TIFF',
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIC',
+  'application/pdf': 'PDF',
+};
+// Re-encoding options per format. PNG gets none: a quality option switches
+// sharp to lossy palette quantization.
+const ENCODE_OPTIONS = {
+  jpeg: { quality: 92 },
+  webp: { quality: 92 },
+  png: {},
+};
+
+// Keep in sync with MAX_UPLOAD_BYTES in services/imagePipeline.ts
+const MAX_UPLOAD_BYTES = 3 * 1024 * 1024;
+
+const decodeDataUrl = (dataUrl) => Buffer.from(dataUrl.replace(/^data:image\/[\w.+-]+;base64,/, ''), 'base64');
+
+const maxUploadEdgeFor = (planTier) => (getPlan(planTier) || getPlan('NONE')).maxUploadEdge;
+
+// Validates an upload against the plan's limits and returns it upright:
+// images carrying an EXIF orientation are rotated and re-encoded in their
+// own format (PNG/WebP keep their transparency). The format is sniffed from
+// the bytes; whatever the data URL claims is ignored.
+// Returns { upload: { buffer, mimeType, width, height, hasAlpha } } or { status, error }.
+const prepareUpload = async (buffer, planTier) => {
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    return { status: 413, error: `Image is too large. The limit is ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB.` };
+  }
+
+  const mimeType = sniffMimeType(buffer);
+  if (!mimeType) {
+    return { status: 415, error: "This file is not a recognised image. Please use a JPG, PNG or WebP file." };
+  }
+  if (!ACCEPTED_MIME_TYPES.includes(mimeType)) {
+    return { status: 415, error: `${FORMAT_NAMES[mimeType] || mimeType} images are not supported. Please use a JPG, PNG or WebP file.` };
+  }
+
+  let metadata;
+  try {
+    metadata = await sharp(buffer).metadata();
+  } catch {
+    return { status: 400, error: "Could not read this image. The file may be corrupted." };
+  }
+
+  const { format, width, height, orientation, hasAlpha } = metadata;
+
+  const maxEdge = maxUploadEdgeFor(planTier);
+  if (Math.max(width, height) > maxEdge) {
+    return { status: 400, error: `Image is ${width}×${height}px; your plan accepts up to ${maxEdge}px on the longest edge.` };
+  }
+
+  const needsRotation = orientation && orientation !== 1;
+  const upright = needsRotation ? await sharp(buffer).rotate().toFormat(format, ENCODE_OPTIONS[format]).toBuffer() : buffer;
+  const [uprightWidth, uprightHeight] = orientation >= 5 ? [height, width] : [width, height];
+
+  return {
+    upload: {
+      buffer: upright,
+      mimeType,
+      width: uprightWidth,
+      height: uprightHeight,
+      hasAlpha: Boolean(hasAlpha)
+    }
+  };
+};
+
+// Re-encodes one of our own stored images (e.g. an output being edited
+// further) so it passes prepareUpload: fitted within the plan's max edge,
+// WebP when transparent, JPEG otherwise.
+const fitStoredImage = async (buffer, planTier) => {
+  const maxEdge = maxUploadEdgeFor(planTier);
+  const { hasAlpha } = await sharp(buffer).metadata();
+  const image = sharp(buffer).rotate().resize({ width: maxEdge, height: maxEdge, fit: 'inside', withoutEnlargement: true });
+  return hasAlpha ? image.webp({ quality: 92 }).toBuffer() : image.jpeg({ quality: 92 }).toBuffer();
+};
+
+module.exports = { ACCEPTED_MIME_TYPES, MAX_UPLOAD_BYTES, decodeDataUrl, maxUploadEdgeFor, prepareUpload, fitStoredImage };
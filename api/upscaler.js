@@ -0,0 +1,43 @@
+// IMAGE UPSCALER
+// Resamples the source to an exact 2x/4x size on the server (Lanczos with a
+// light sharpen), independent of the prompt-driven image provider.
+const sharp = require('sharp');
+
+// Longest edge we will produce; keeps 4x of large uploads within memory
+const MAX_OUTPUT_EDGE = 8192;
+
+const OUTPUT_FORMATS = {
+  png: (image) => image.png(),
+  webp: (image) => image.webp({ quality: 92 }),
+};
+
+// Returns { width, height } of the upscaled output, or null if it would exceed MAX_OUTPUT_EDGE
+const planUpscale = async (buffer, scale) => {
+  const { width, height, orientation } = await sharp(buffer).metadata();
+  // EXIF orientations 5-8 swap width and height once the image is rotated upright
+  const [uprightWidth, uprightHeight] = orientation >= 5 ? [height, width] : [width, height];
+  const target = { width: uprightWidth * scale, height: uprightHeight * scale };
+  return Math.max(target.width, target.height) > MAX_OUTPUT_EDGE ? null : target;
+};
+
+// Keeps PNG/WebP (and their transparency); everything else becomes a high-quality JPEG
+const upscaleImage = async (buffer, scale) => {
+  const target = await planUpscale(buffer, scale);
+  if (!target) {
+    throw new Error(`Upscaled image would exceed ${MAX_OUTPUT_EDGE}px. Please use a smaller image or a lower scale.`);
+  }
+
+  const { format } = await sharp(buffer).metadata();
+  const resized = sharp(buffer)
+    .rotate()
+    .resize(target.width, target.height, { kernel: sharp.kernel.lanczos3 })
+    .sharpen({ sigma: 0.6 });
+
+  const encode = OUTPUT_FORMATS[format];
+  const output = encode ? await encode(resized).toBuffer() : await resized.jpeg({ quality: 92 }).toBuffer();
+  const mimeType = encode ? `image/${format}` : 'image/jpeg';
+
+  return { imageBase64: output.toString('base64'), mimeType, ...target };
+};
+
+module.exports = { MAX_OUTPUT_EDGE, planUpscale, upscaleImage };
@@ -0,0 +1,47 @@
+// PREVIEW WATERMARKING
+// Locked generations are only ever sent to the browser as a downscaled
+// JPEG with the watermark burned into the pixels. The clean output stays
+// in the object store until the image is unlocked.
+const sharp = require('sharp');
+
+const PREVIEW_MAX_SIZE = 512;
+const PREVIEW_QUALITY = 70;
+const WATERMARK_TEXT = 'UPSCALE IMAGERY AI · PREVIEW';
+
+const watermarkSvg = (width, height) => {
+  const fontSize = Math.max(12, Math.round(Math.min(width, height) / 16));
+  const rowGap = fontSize * 4;
+  const rows = [];
+  // Rotated rows overflow the canvas on purpose so the corners are covered too
+  for (let y = -height; y < height * 2; y += rowGap) {
+    rows.push(
+      `<text x="${-width}" y="${y}" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" ` +
+      `fill="white" fill-opacity="0.45" stroke="black" stroke-opacity="0.25" stroke-width="1">` +
+      `${`${WATERMARK_TEXT}   `.repeat(8)}</text>`
+    );
+  }
+  return Buffer.from(
+    `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">` +
+      `<g transform="rotate(-30 ${width / 2} ${height / 2})">${rows.join('')}</g>` +
+    `</svg>`
+  );
+};
+
+// Returns a base64 JPEG preview with the watermark applied
+const createWatermarkedPreview = async (imageBuffer) => {
+  const resized = await sharp(imageBuffer)
+    .rotate()
+    .resize(PREVIEW_MAX_SIZE, PREVIEW_MAX_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height } = resized.info;
+  const preview = await sharp(resized.data)
+    .composite([{ input: watermarkSvg(width, height), top: 0, left: 0 }])
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: PREVIEW_QUALITY })
+    .toBuffer();
+
+  return { imageBase64: preview.toString('base64'), mimeType: 'image/jpeg' };
+};
+
+module.exports = { createWatermarkedPreview };
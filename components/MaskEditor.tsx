@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  // PNG data URL (white = change, black = keep), or null when nothing is painted
+  onChange: (maskDataUrl: string | null) => void;
+  disabled?: boolean;
+}
+
+// Brush sizes as a share of the image width, so they feel the same at any resolution
+const BRUSH_SIZES = [0.02, 0.05, 0.1];
+
+/**
+ * Paints an inpainting mask over an image. Strokes are drawn at the image's
+ * natural resolution on a canvas laid over it; the server resizes the mask
+ * to the upload anyway, so the two only need the same aspect ratio.
+ */
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, onChange, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const lastPoint = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+  const [isErasing, setIsErasing] = useState(false);
+  const [hasStrokes, setHasStrokes] = useState(false);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasStrokes(false);
+    onChange(null);
+  };
+
+  // Pointer position in canvas pixels
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height
+    };
+  };
+
+  const strokeTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !canvasRef.current) return;
+    const from = lastPoint.current || point;
+
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ff3b30';
+    ctx.lineWidth = brushSize * canvasRef.current.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  // Painted pixels become white, everything else black
+  const exportMask = (): string | null => {
+    const canvas = canvasRef.current;
+    if (!canvas) return null;
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const ctx = mask.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.drawImage(canvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    return mask.toDataURL('image/png');
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    lastPoint.current = null;
+    strokeTo(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (drawing.current) strokeTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    lastPoint.current = null;
+
+    // Erasing can empty the canvas again
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    const painted = Boolean(canvas && ctx && ctx.getImageData(0, 0, canvas.width, canvas.height).data.some((value, i) => i % 4 === 3 && value > 0));
+    setHasStrokes(painted);
+    onChange(painted ? exportMask() : null);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasStrokes(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <img src={imageUrl} alt="Source" onLoad={handleImageLoad} className="w-full h-auto rounded select-none" draggable={false} />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`absolute inset-0 w-full h-full opacity-50 touch-none ${disabled ? 'cursor-not-allowed' : 'cursor-crosshair'}`}
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <div className="inline-flex rounded-md border border-slate-300 overflow-hidden">
+          {BRUSH_SIZES.map((size, index) => (
+            <button
+              key={size}
+              type="button"
+              onClick={() => setBrushSize(size)}
+              className={`px-3 py-1 font-medium ${brushSize === size ? 'bg-navy-800 text-white' : 'bg-white text-navy-800 hover:bg-slate-50'}`}
+            >
+              {['S', 'M', 'L'][index]}
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsErasing(!isErasing)}
+          className={`px-3 py-1 rounded-md border font-medium ${isErasing ? 'border-navy-800 bg-navy-800 text-white' : 'border-slate-300 bg-white text-navy-800 hover:bg-slate-50'}`}
+        >
+          Eraser
+        </button>
+        <button
+          type="button"
+          onClick={handleClear}
+          disabled={!hasStrokes}
+          className="px-3 py-1 rounded-md border border-slate-300 bg-white text-navy-800 font-medium hover:bg-slate-50 disabled:opacity-50"
+        >
+          Clear
+        </button>
+        <span className="text-xs text-slate-500">{hasStrokes ? 'Only the painted area will change.' : 'Paint over the area to change.'}</span>
+      </div>
+    </div>
+  );
+};
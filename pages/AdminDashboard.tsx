@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { StorageService } from '../services/storageService';
-import { User, SupportTicket, Payout } from '../types';
+import { User, SupportTicket, Payout, ModerationIncident } from '../types';
 
 export const AdminDashboard: React.FC = () => {
   const [metrics, setMetrics] = useState(StorageService.getMetrics());
@@ -8,7 +8,10 @@ export const AdminDashboard: React.FC = () => {
   const [tickets, setTickets] = useState<SupportTicket[]>(StorageService.getTickets());
   const [payouts, setPayouts] = useState<Payout[]>(StorageService.getPayouts());
   
-  const [activeTab, setActiveTab] = useState<'OVERVIEW' | 'USERS' | 'TICKETS' | 'FINANCE'>('OVERVIEW');
+  const [incidents, setIncidents] = useState<ModerationIncident[]>([]);
+  const [incidentsError, setIncidentsError] = useState<string | null>(null);
+  
+  const [activeTab, setActiveTab] = useState<'OVERVIEW' | 'USERS' | 'TICKETS' | 'FINANCE' | 'MODERATION'>('OVERVIEW');
   const [replyText, setReplyText] = useState('');
   const [selectedTicketId, setSelectedTicketId] = useState<string | null>(null);
 
@@ -35,6 +38,9 @@ export const AdminDashboard: React.FC = () => {
     setUsers(StorageService.getAllUsers());
     setTickets(StorageService.getTickets());
     setPayouts(StorageService.getPayouts());
+    StorageService.fetchModerationIncidents()
+      .then((list) => { setIncidents(list); setIncidentsError(null); })
+      .catch((err) => setIncidentsError(err.message || "Could not load moderation incidents."));
   };
 
   const handleReply = (ticketId: string) => {
@@ -114,7 +120,7 @@ export const AdminDashboard: React.FC = () => {
       <div className="flex justify-between items-center mb-8">
         <h1 className="text-2xl font-bold text-navy-900">Admin Dashboard</h1>
         <div className="flex space-x-2 bg-white p-1 rounded-md border border-slate-200">
-          {(['OVERVIEW', 'USERS', 'TICKETS', 'FINANCE'] as const).map(tab => (
+          {(['OVERVIEW', 'USERS', 'TICKETS', 'FINANCE', 'MODERATION'] as const).map(tab => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -390,6 +396,42 @@ export const AdminDashboard: React.FC = () => {
         </div>
       )}
 
+      {activeTab === 'MODERATION' && (
+        <div className="bg-white shadow overflow-hidden border-b border-gray-200 sm:rounded-lg overflow-x-auto">
+          {incidentsError && <p className="px-6 py-4 text-sm text-red-600">{incidentsError}</p>}
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Blocked by</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prompt</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {incidents.length === 0 && !incidentsError && (
+                <tr><td colSpan={5} className="px-6 py-10 text-center text-slate-500">No blocked requests.</td></tr>
+              )}
+              {incidents.map((incident) => (
+                <tr key={incident.id}>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{new Date(incident.createdAt).toLocaleString()}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {incident.code === 'PROMPT_BLOCKED' ? 'Prompt screen' : 'Provider filter'}
+                    {incident.reason && <div className="text-xs text-gray-500">{incident.reason}</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800">{incident.category}</span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">{incident.userId || 'Guest'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-700 max-w-md break-words">{incident.prompt}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Payout Modal */}
       {showPayoutModal && (
         <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="modal-title" role="dialog" aria-modal="true">
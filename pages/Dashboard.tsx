@@ -1,19 +1,34 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { StorageService } from '../services/storageService';
-import { User, ImageRecord, PLANS, PlanTier } from '../types';
+import { PaymentService } from '../services/paymentService';
+import { GeminiService } from '../services/geminiService';
+import { extensionForMimeType } from '../services/imagePipeline';
+import { User, ImageSummary, PLANS, PlanTier, StylePreset } from '../types';
 
 export const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const [user, setUser] = useState<User>(StorageService.getUser());
-  const [images, setImages] = useState<ImageRecord[]>([]);
+  const [images, setImages] = useState<ImageSummary[]>([]);
   const [loadingImages, setLoadingImages] = useState(true);
+  // Gallery pagination: null cursor means every page has been loaded
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  // Gallery filter by style preset (null shows everything)
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [presetFilter, setPresetFilter] = useState<string | null>(null);
   
   // Subscription Payment State
   const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<PlanTier | null>(null);
   const [isRedirecting, setIsRedirecting] = useState(false);
 
+  // Edit history of one image, shown as a tree
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [history, setHistory] = useState<ImageSummary[]>([]);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
   useEffect(() => {
     // Check if user is authenticated locally first
     const currentUser = StorageService.getUser();
@@ -23,16 +38,21 @@ export const Dashboard: React.FC = () => {
     }
     setUser(currentUser);
 
-    // Fetch images from Supabase
+    // Also sync user details to get latest credits
+    StorageService.syncUser().then(setUser).catch(console.error);
+    GeminiService.fetchPresets().then(setPresets).catch(console.error);
+  }, [navigate]);
+
+  // First gallery page, reloaded whenever the preset filter changes
+  useEffect(() => {
+    if (!StorageService.getUser().isAuthenticated) return;
+
     const loadData = async () => {
         setLoadingImages(true);
         try {
-            // Also sync user details to get latest credits
-            const updatedUser = await StorageService.syncUser();
-            setUser(updatedUser);
-            
-            const fetchedImages = await StorageService.fetchImages();
-            setImages(fetchedImages);
+            const page = await StorageService.fetchImages(null, presetFilter);
+            setImages(page.images);
+            setNextCursor(page.nextCursor);
         } catch (e) {
             console.error(e);
         } finally {
@@ -40,7 +60,33 @@ export const Dashboard: React.FC = () => {
         }
     };
     loadData();
-  }, [navigate]);
+  }, [presetFilter]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    setLoadingMore(true);
+    try {
+        const page = await StorageService.fetchImages(nextCursor, presetFilter);
+        setImages(prev => [...prev, ...page.images]);
+        setNextCursor(page.nextCursor);
+    } catch (e) {
+        console.error(e);
+    } finally {
+        setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, presetFilter]);
+
+  // Infinite scroll: fetch the next page as the end of the gallery comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
 
   const handleDelete = async (id: string) => {
     if (window.confirm("Are you sure you want to delete this image?")) {
@@ -49,6 +95,87 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const handleUnlock = async (id: string) => {
+    try {
+      // The server spends the credit and unlocks the record atomically
+      await PaymentService.unlockWithCredit(id);
+      // Refetch the record so the watermarked thumbnail is swapped for the clean one
+      const unlocked = await StorageService.fetchImage(id);
+      setImages(prev => prev.map(img => img.id === id ? unlocked : img));
+      const updatedUser = await StorageService.syncUser();
+      setUser(updatedUser);
+    } catch (err: any) {
+      alert(err.message || "Could not unlock image. Please try again.");
+    }
+  };
+
+  // The gallery only holds thumbnails; the clean original is fetched from
+  // the server on demand. Records without a generation (saved before
+  // generations were tracked) download their stored output instead.
+  const handleDownload = async (img: ImageSummary) => {
+    try {
+      const link = document.createElement('a');
+      link.download = `upscale-ai-${img.id}.${extensionForMimeType(img.mimeType)}`;
+
+      if (img.generationId) {
+        const blob = await GeminiService.downloadOriginal(img.generationId);
+        link.href = URL.createObjectURL(blob);
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+      } else {
+        const record = await StorageService.fetchImage(img.id);
+        if (!record.generatedImageUrl) throw new Error("This image has no stored output.");
+        link.href = record.generatedImageUrl;
+        link.click();
+      }
+    } catch (err: any) {
+      alert(err.message || "Could not download image. Please try again.");
+    }
+  };
+
+  const handleShowHistory = async (id: string) => {
+    setHistoryFor(id);
+    setHistory([]);
+    setLoadingHistory(true);
+    try {
+      setHistory(await StorageService.fetchImageHistory(id));
+    } catch (err: any) {
+      alert(err.message || "Could not load edit history.");
+      setHistoryFor(null);
+    } finally {
+      setLoadingHistory(false);
+    }
+  };
+
+  // Branching from any node (or reverting to an earlier one) opens it in the Generator
+  const handleEditFrom = (id: string) => navigate(`/generate?parent=${encodeURIComponent(id)}`);
+
+  // One image of the edit tree, with the edits made from it indented below
+  const renderHistoryNode = (node: ImageSummary, depth: number): React.ReactNode => (
+    <li key={node.id}>
+      <div
+        className={`flex items-center gap-3 p-2 rounded ${node.id === historyFor ? 'bg-camel-50 ring-1 ring-camel-500' : ''}`}
+        style={{ marginLeft: depth * 24 }}
+      >
+        <img src={node.thumbnailUrl || undefined} alt={node.prompt} className="h-12 w-12 rounded object-cover bg-slate-100 flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-navy-900 truncate" title={node.prompt}>{node.prompt}</p>
+          <p className="text-xs text-slate-500">{new Date(node.timestamp).toLocaleString()}</p>
+        </div>
+        {node.isUnlocked ? (
+          <button onClick={() => handleEditFrom(node.id)} className="text-camel-600 text-xs font-medium hover:text-camel-700 whitespace-nowrap">
+            Edit from here
+          </button>
+        ) : (
+          <span className="text-xs text-slate-400 italic">Locked</span>
+        )}
+      </div>
+      <ul>
+        {history.filter(child => child.parentImageId === node.id).map(child => renderHistoryNode(child, depth + 1))}
+      </ul>
+    </li>
+  );
+
   const handleSelectPlan = (planId: PlanTier) => {
     setSelectedPlan(planId);
     setShowSubscriptionModal(true);
@@ -61,23 +188,22 @@ export const Dashboard: React.FC = () => {
       }
   };
 
-  const handleProceedToStripe = () => {
+  const handleProceedToStripe = async () => {
     if (!selectedPlan) return;
-    const plan = PLANS.find(p => p.id === selectedPlan);
-    if (!plan || !plan.paymentLink) return;
     
     setIsRedirecting(true);
     StorageService.setPendingTransaction(selectedPlan);
 
-    // Redirect to Stripe with prefilled email and client tracking
-    const separator = plan.paymentLink.includes('?') ? '&' : '?';
-    const params = new URLSearchParams();
-    params.append('prefilled_email', user.email);
-    params.append('client_reference_id', user.id); // Track which user is subscribing
-
-    const finalLink = `${plan.paymentLink}${separator}${params.toString()}`;
-    
-    window.location.href = finalLink;
+    try {
+        // The server creates the Checkout Session bound to the logged-in user
+        const checkoutUrl = await PaymentService.createCheckout(selectedPlan);
+        window.location.href = checkoutUrl;
+    } catch (err: any) {
+        console.error("Checkout error:", err);
+        alert(err.message || "Could not start checkout. Please try again.");
+        setIsRedirecting(false);
+        setShowSubscriptionModal(false);
+    }
   };
 
   const currentPlanDetails = PLANS.find(p => p.id === user.plan);
@@ -151,6 +277,20 @@ export const Dashboard: React.FC = () => {
 
       <h2 className="text-xl font-bold text-navy-800 mb-6 border-b border-slate-200 pb-2">Recent Transformations</h2>
 
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-6">
+          {[null, ...presets].map((preset) => (
+            <button
+              key={preset ? preset.id : 'all'}
+              onClick={() => setPresetFilter(preset ? preset.id : null)}
+              className={`px-3 py-1 rounded-full border text-sm font-medium ${(preset ? preset.id : null) === presetFilter ? 'border-navy-800 bg-navy-800 text-white' : 'border-slate-300 bg-white text-navy-800 hover:bg-slate-50'}`}
+            >
+              {preset ? preset.name : 'All'}
+            </button>
+          ))}
+        </div>
+      )}
+
       {loadingImages ? (
           <div className="flex justify-center py-10">
               <svg className="animate-spin h-8 w-8 text-navy-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -163,6 +303,7 @@ export const Dashboard: React.FC = () => {
           <p className="text-slate-500">No images found. Create your first one!</p>
         </div>
       ) : (
+        <>
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
           {images.map((img) => (
             <div key={img.id} className="bg-white rounded-lg border border-slate-200 overflow-hidden shadow-sm relative group">
@@ -179,7 +320,7 @@ export const Dashboard: React.FC = () => {
               {/* Image Container with Aspect Ratio Optimization */}
               <div className="aspect-square w-full bg-slate-100 relative overflow-hidden">
                 <img 
-                  src={img.generatedImageBase64 || img.originalImageBase64} 
+                  src={img.thumbnailUrl || undefined} 
                   alt={img.prompt || "Generated Image"} 
                   loading="lazy"
                   decoding="async"
@@ -197,21 +338,77 @@ export const Dashboard: React.FC = () => {
                 <p className="text-sm font-medium text-navy-900 line-clamp-2" title={img.prompt}>{img.prompt}</p>
                 <div className="mt-4 flex justify-between items-center">
                   {img.isUnlocked ? (
-                     <a 
-                       href={img.generatedImageBase64 || '#'} 
-                       download={`upscale-ai-${img.id}.jpg`}
+                     <button 
+                       onClick={() => handleDownload(img)}
                        className="text-camel-600 text-sm font-medium hover:text-camel-700"
                      >
                        Download HD
-                     </a>
+                     </button>
+                  ) : user.credits > 0 ? (
+                    <button 
+                      onClick={() => handleUnlock(img.id)}
+                      className="text-navy-800 text-sm font-medium hover:text-navy-900"
+                    >
+                      Unlock (1 credit)
+                    </button>
                   ) : (
                     <span className="text-xs text-slate-400 italic">Watermarked</span>
                   )}
+                  <button
+                    onClick={() => handleShowHistory(img.id)}
+                    className="text-slate-500 text-sm font-medium hover:text-navy-900"
+                  >
+                    History
+                  </button>
                 </div>
               </div>
             </div>
           ))}
         </div>
+        {/* Infinite scroll sentinel */}
+        {nextCursor && (
+          <div ref={loadMoreRef} className="flex justify-center py-8">
+            {loadingMore && (
+              <svg className="animate-spin h-6 w-6 text-navy-900" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+            )}
+          </div>
+        )}
+        </>
+      )}
+
+      {/* Edit History Modal */}
+      {historyFor && (
+        <div className="fixed inset-0 z-50 overflow-y-auto" aria-labelledby="history-title" role="dialog" aria-modal="true">
+          <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+            <div className="fixed inset-0 bg-gray-500 bg-opacity-75 transition-opacity" onClick={() => setHistoryFor(null)}></div>
+            <div className="inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-lg sm:w-full">
+              <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+                  <h3 className="text-lg font-bold" id="history-title">Edit History</h3>
+                  {loadingHistory ? (
+                    <p className="mt-2 text-sm text-gray-500">Loading...</p>
+                  ) : (
+                    <ul className="mt-4 space-y-1 max-h-96 overflow-y-auto">
+                      {/* The root, plus images whose parent was deleted */}
+                      {history
+                        .filter(node => !node.parentImageId || !history.some(other => other.id === node.parentImageId))
+                        .map(root => renderHistoryNode(root, 0))}
+                    </ul>
+                  )}
+              </div>
+              <div className="bg-gray-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+                <button 
+                    onClick={() => setHistoryFor(null)}
+                    className="w-full inline-flex justify-center rounded-md border border-gray-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-gray-700 hover:bg-gray-50 sm:w-auto sm:text-sm"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
       )}
 
       {/* Subscription Redirect Modal */}
@@ -1,13 +1,34 @@
-import React, { useState, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
-// @ts-ignore
-import heic2any from 'heic2any';
+import React, { useState, useRef, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { StorageService } from '../services/storageService';
-import { GeminiService } from '../services/geminiService';
-import { User, ImageRecord, PlanTier, PLANS } from '../types';
+import { GeminiService, GenerationError } from '../services/geminiService';
+import { PaymentService } from '../services/paymentService';
+import { MaskEditor } from '../components/MaskEditor';
+import { prepareImage, fitWithin, getMaxUploadEdge, extensionForMimeType, PreparedImage, UPSCALE_MAX_OUTPUT_EDGE } from '../services/imagePipeline';
+import { User, ImageRecord, PlanTier, GenerationMode, GenerationProgress, GenerationResult, QueueStatus, GenerationErrorCode, StylePreset, MAX_PROMPT_LENGTH, EDIT_CREDIT_COST, UPSCALE_CREDIT_COSTS, UPSCALE_FACTORS, MAX_VARIATIONS } from '../types';
+
+type NoticeKind = 'blocked' | 'no_change' | 'quota' | 'pending';
+
+// Outcomes shown as a notice rather than an error: none of them was charged
+const NOTICE_KINDS: Partial<Record<GenerationErrorCode, NoticeKind>> = {
+  PROMPT_BLOCKED: 'blocked',
+  SAFETY_BLOCKED: 'blocked',
+  NO_CHANGE: 'no_change',
+  GUEST_QUOTA_EXCEEDED: 'quota'
+};
+
+// "Queued (#3, ~1 min)..." while waiting for a worker
+const queuedLabel = (queue?: QueueStatus) => {
+  if (!queue) return 'Queued...';
+  const wait = queue.estimatedWaitSeconds < 60
+    ? `~${Math.max(5, Math.round(queue.estimatedWaitSeconds / 5) * 5)}s`
+    : `~${Math.round(queue.estimatedWaitSeconds / 60)} min`;
+  return `Queued (#${queue.position}, ${wait})...`;
+};
 
 export const Generator: React.FC = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // State
@@ -17,110 +38,68 @@ export const Generator: React.FC = () => {
   const [prompt, setPrompt] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false); // Processing state for compression
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Requests that ended without an image or a charge (blocked, or the model made no change)
+  const [notice, setNotice] = useState<{ kind: NoticeKind; message: string } | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
-  const [currentImageId, setCurrentImageId] = useState<string | null>(null);
+  // One record per variation of the last generation
+  const [variationRecords, setVariationRecords] = useState<ImageRecord[]>([]);
+  const [selectedVariation, setSelectedVariation] = useState(0);
+  const [count, setCount] = useState(1);
   const [isRedirecting, setIsRedirecting] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [mode, setMode] = useState<GenerationMode>('edit');
+  const [scale, setScale] = useState<number>(UPSCALE_FACTORS[0]);
+  const [preparedImage, setPreparedImage] = useState<PreparedImage | null>(null);
+  const [lastResult, setLastResult] = useState<GenerationResult | null>(null);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  // Saved result being edited further ("edit this result"); its output is the source image
+  const [parentRecord, setParentRecord] = useState<ImageRecord | null>(null);
+  // Inpainting: only the painted area of the source is edited
+  const [useMask, setUseMask] = useState(false);
+  const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
+  const isMasking = mode === 'edit' && useMask && Boolean(previewUrl);
+  // Style presets: the server turns the preset (and its parameters) into the prompt
+  const [presets, setPresets] = useState<StylePreset[]>([]);
+  const [presetId, setPresetId] = useState<string | null>(null);
+  const [presetParams, setPresetParams] = useState<Record<string, string>>({});
+  const selectedPreset = mode === 'edit' ? presets.find(p => p.id === presetId) || null : null;
+  // With a preset the prompt only adds details, so it may be empty
+  const missingPrompt = mode === 'edit' && !prompt && !selectedPreset;
+
+  // The variation currently shown (and unlocked/paid for)
+  const selectedResult = lastResult ? lastResult.variations[selectedVariation] || null : null;
+  const generatedImage = selectedResult ? selectedResult.image : null;
+  const currentRecord = variationRecords[selectedVariation] || null;
 
   // --- CLIENT-SIDE IMAGE PROCESSING ---
-  const processImage = async (file: File): Promise<string> => {
-    let processingFile = file;
-
-    // 1. HEIC/HEIF Conversion
-    const isHeic = file.type === 'image/heic' || 
-                   file.type === 'image/heif' || 
-                   file.name.toLowerCase().endsWith('.heic') || 
-                   file.name.toLowerCase().endsWith('.heif');
-
-    if (isHeic) {
-      try {
-        console.log("Detected HEIC image. Converting to JPEG...");
-        const converted = await heic2any({
-          blob: file,
-          toType: 'image/jpeg',
-          quality: 0.8
-        });
-
-        const blob = Array.isArray(converted) ? converted[0] : converted;
-        processingFile = new File([blob], file.name.replace(/\.(heic|heif)$/i, '.jpg'), { type: 'image/jpeg' });
-      } catch (e: any) {
-        console.error("HEIC conversion failed:", e);
-        throw new Error("Could not convert HEIC image. Please use a standard JPG or PNG.");
-      }
-    }
-
-    // 2. Browser Image Processing (Resizing & Compression)
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(processingFile);
-      
-      reader.onload = (event) => {
-        const img = new Image();
-        img.src = event.target?.result as string;
-        
-        img.onload = () => {
-          const MAX_WIDTH = 800;
-          const MAX_HEIGHT = 800;
-          let width = img.width;
-          let height = img.height;
-
-          if (width > height) {
-            if (width > MAX_WIDTH) {
-              height *= MAX_WIDTH / width;
-              width = MAX_WIDTH;
-            }
-          } else {
-            if (height > MAX_HEIGHT) {
-              width *= MAX_HEIGHT / height;
-              height = MAX_HEIGHT;
-            }
-          }
-
-          const canvas = document.createElement('canvas');
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          
-          if (!ctx) {
-            reject(new Error("Browser does not support image processing."));
-            return;
-          }
-          
-          ctx.fillStyle = "#FFFFFF";
-          ctx.fillRect(0, 0, width, height);
-          ctx.drawImage(img, 0, 0, width, height);
-          
-          const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
-          resolve(dataUrl);
-        };
-        img.onerror = () => reject(new Error("Failed to load image structure."));
-      };
-      reader.onerror = () => reject(new Error("Failed to read file."));
-    });
-  };
+  // Uploads are sent at the plan's max resolution (see services/imagePipeline.ts)
+  const maxUploadEdge = getMaxUploadEdge(user.plan);
+  // Upscale sources are capped so the output stays within the server's limit
+  const upscaleSourceEdge = Math.min(maxUploadEdge, Math.floor(UPSCALE_MAX_OUTPUT_EDGE / scale));
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       setError(null);
+      setNotice(null);
       setPreviewUrl(null);
-      setGeneratedImage(null);
-      setCurrentImageId(null);
+      setVariationRecords([]);
+      setSelectedVariation(0);
+      setLastResult(null);
+      setPreparedImage(null);
+      setParentRecord(null);
+      setMaskDataUrl(null);
       setSelectedFile(file);
       setIsProcessing(true);
 
       try {
         console.log(`Original file size: ${(file.size / 1024 / 1024).toFixed(2)} MB`);
-        const optimizedBase64 = await processImage(file);
-        const approximateSizeMB = (optimizedBase64.length * 3) / 4 / 1024 / 1024;
-        console.log(`Optimized size: ${approximateSizeMB.toFixed(2)} MB`);
-        
-        if (approximateSizeMB > 4.0) {
-            throw new Error("Image could not be compressed enough. Please use a smaller file.");
-        }
+        const prepared = await prepareImage(file, { maxEdge: maxUploadEdge });
+        console.log(`Prepared ${prepared.width}x${prepared.height} ${prepared.mimeType}${prepared.hasAlpha ? ' (transparent)' : ''}`);
 
-        setPreviewUrl(optimizedBase64);
+        setPreviewUrl(prepared.dataUrl);
+        setPreparedImage(prepared);
       } catch (err: any) {
         console.error("Image processing error:", err);
         setError(err.message || "Failed to process image. Please try a valid JPEG or PNG file.");
@@ -130,78 +109,244 @@ export const Generator: React.FC = () => {
     }
   };
 
-  const handleGenerate = async () => {
-    if (!previewUrl || !prompt) {
-      setError("Please provide an image and a prompt.");
+  // Guests get a single free preview; variations are charged per image
+  const requestedCount = mode === 'edit' && user.isAuthenticated ? count : 1;
+  const creditCost = mode === 'upscale' ? UPSCALE_CREDIT_COSTS[scale] : EDIT_CREDIT_COST * requestedCount;
+
+  // Expected upscale output, from the upload's size after the upscale source resize
+  const upscaleTarget = preparedImage
+    ? (() => {
+        const source = fitWithin(preparedImage.width, preparedImage.height, upscaleSourceEdge);
+        return { width: source.width * scale, height: source.height * scale };
+      })()
+    : null;
+
+  // Shows a finished generation. Logged-in users' records were already saved
+  // by the server; guests get unsaved local records.
+  const showResult = (
+    result: GenerationResult,
+    originalImageUrl: string,
+    prompt: string,
+    { parentImageId = null, presetId = null }: { parentImageId?: string | null; presetId?: string | null } = {}
+  ) => {
+    setLastResult(result);
+    setSelectedVariation(0);
+    setVariationRecords(result.variations.map((variation) => ({
+      id: variation.imageId || StorageService.generateId(),
+      userId: user.isAuthenticated ? user.id : 'guest',
+      originalImageUrl,
+      generatedImageUrl: variation.image,
+      prompt,
+      timestamp: Date.now(),
+      isUnlocked: !result.isPreview, // Server decides: previews are watermarked
+      isFreePreview: result.isPreview,
+      generationId: variation.generationId,
+      groupId: result.groupId,
+      parentImageId,
+      presetId,
+      mimeType: variation.mimeType
+    })));
+  };
+
+  // Makes a saved, unlocked result the source of the next edit
+  const startEditingFrom = (record: ImageRecord) => {
+    if (!record.generatedImageUrl) return;
+    setParentRecord(record);
+    setPreviewUrl(record.generatedImageUrl);
+    setPreparedImage(null);
+    setSelectedFile(null);
+    setLastResult(null);
+    setVariationRecords([]);
+    setSelectedVariation(0);
+    setMode('edit');
+    setPrompt('');
+    setMaskDataUrl(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  useEffect(() => {
+    GeminiService.fetchPresets()
+      .then(setPresets)
+      .catch((err) => console.error("Failed to load style presets:", err));
+  }, []);
+
+  const handleSelectPreset = (preset: StylePreset | null) => {
+    setPresetId(preset ? preset.id : null);
+    setPresetParams(preset ? Object.fromEntries(preset.params.map(param => [param.id, param.default])) : {});
+  };
+
+  // Opened from the Dashboard's edit history (/generate?parent=<imageId>)
+  useEffect(() => {
+    const parentId = searchParams.get('parent');
+    if (!parentId || !user.isAuthenticated) return;
+    StorageService.fetchImage(parentId)
+      .then(startEditingFrom)
+      .catch((err) => setError(err.message || "Could not load the image to edit."));
+  }, [searchParams]);
+
+  const afterGeneration = async (result: GenerationResult) => {
+    StorageService.logEvent({ type: 'GENERATION_SUCCESS', timestamp: Date.now() });
+
+    if (user.isAuthenticated) {
+      const updatedUser = await StorageService.syncUser();
+      setUser(updatedUser);
+    }
+    if (result.isPreview) {
+      StorageService.syncGuestAllowance().then(setUser).catch(console.error);
+    }
+  };
+
+  // The job outlived the wait (or the connection): it stays pending to be resumed
+  const isStillRunning = (err: any) => err instanceof GenerationError && err.code === 'JOB_TIMEOUT';
+
+  const handleGenerationError = (err: any) => {
+    if (isStillRunning(err)) {
+      setNotice({ kind: 'pending', message: err.message });
+      return;
+    }
+    if (err instanceof GenerationError && err.code === 'GUEST_TOKEN_REQUIRED') {
+      // Renews the token, so trying again works
+      StorageService.syncGuestAllowance().then(setUser).catch(console.error);
+    } else if (err instanceof GenerationError && err.code && NOTICE_KINDS[err.code]) {
+      const kind = NOTICE_KINDS[err.code]!;
+      setNotice({ kind, message: err.message });
+      if (kind === 'quota') setUser({ ...user, hasUsedFreeGen: true });
+      StorageService.logEvent({ type: 'GENERATION_FAILURE', timestamp: Date.now(), details: err.category ? `${err.code} (${err.category})` : err.code });
       return;
     }
+    setError(err.message || "Transformation failed. Please try a different prompt.");
+    if (err.message.includes("Insufficient credits")) {
+        setShowPaymentModal(true);
+    }
+    StorageService.logEvent({ type: 'GENERATION_FAILURE', timestamp: Date.now(), details: err.message });
+  };
 
-    let isFreePreview = false;
+  // Guests: renew the guest token and read today's free previews
+  useEffect(() => {
+    if (user.isAuthenticated) return;
+    StorageService.syncGuestAllowance().then(setUser).catch(console.error);
+  }, []);
 
-    if (!user.isAuthenticated) {
-        isFreePreview = true;
-    } else if (user.credits <= 0 && user.plan === PlanTier.NONE) {
-        setError("You have 0 credits. Please purchase a pack to generate.");
+  // Picks up a generation that was still running when the page was left
+  const resumePendingJob = () => {
+    const pending = StorageService.getPendingJob();
+    if (!pending) return;
+
+    setIsGenerating(true);
+    setError(null);
+    setNotice(null);
+    let stillRunning = false;
+    GeminiService.resumeJob(pending.jobId, setProgress)
+      .then(async (result) => {
+        // The source image is not kept locally; saved records carry a signed URL to it
+        const first = result.variations[0].imageId ? await StorageService.fetchImage(result.variations[0].imageId).catch(() => null) : null;
+        showResult(result, first ? first.originalImageUrl : '', first ? first.prompt : '');
+        await afterGeneration(result);
+      })
+      .catch((err) => {
+        stillRunning = isStillRunning(err);
+        handleGenerationError(err);
+      })
+      .finally(() => {
+        if (!stillRunning) StorageService.clearPendingJob();
+        setIsGenerating(false);
+        setProgress(null);
+      });
+  };
+
+  useEffect(resumePendingJob, []);
+
+  const handleGenerate = async () => {
+    if (!previewUrl || missingPrompt) {
+      setError(mode === 'edit' ? "Please provide an image and a prompt." : "Please provide an image.");
+      return;
+    }
+    if (isMasking && !maskDataUrl) {
+      setError("Paint over the area you want to change, or turn off area editing.");
+      return;
+    }
+
+    if (user.isAuthenticated && user.credits < creditCost && user.plan === PlanTier.NONE) {
+        setError(`You need ${creditCost} credit${creditCost === 1 ? '' : 's'} for this. Please purchase a pack to generate.`);
         setShowPaymentModal(true);
         return;
     }
 
     setIsGenerating(true);
     setError(null);
+    setNotice(null);
+    let stillRunning = false;
 
     try {
-      // 1. CALL SERVER with Optimized Image
-      const resultBase64 = await GeminiService.transformImage(previewUrl, prompt);
-      
-      setGeneratedImage(resultBase64);
-      StorageService.logEvent({ type: 'GENERATION_SUCCESS', timestamp: Date.now() });
-      
-      if (user.isAuthenticated) {
-        const updatedUser = await StorageService.syncUser();
-        setUser(updatedUser);
-      }
-
-      // 2. GENERATE ROBUST ID IMMEDIATELY
-      // This ensures we have a valid ID for the payment link even if DB save is pending
-      const newImageId = StorageService.generateId();
-      setCurrentImageId(newImageId);
-
-      // 3. SAVE IMAGE RECORD
-      const tempRecord: ImageRecord = {
-        id: newImageId,
-        userId: user.isAuthenticated ? user.id : 'guest',
-        originalImageBase64: previewUrl,
-        generatedImageBase64: resultBase64,
-        prompt: prompt,
-        timestamp: Date.now(),
-        isUnlocked: !isFreePreview, 
-        isFreePreview: isFreePreview
-      };
-
-      // We don't await this to block UI, but we need to ensure ID consistency.
-      // Since generateId() creates a UUID, saveImage will respect it.
-      StorageService.saveImage(tempRecord).catch(err => {
-         console.error("Failed to save image record:", err);
-         // Even if save fails, we have the ID in state for the current session
-      });
-
-      if (isFreePreview) {
-          const u = StorageService.recordFreeUsage();
-          setUser(u);
-      }
+      // 1. QUEUE THE JOB with the Optimized Image
+      // Upscales re-encode the upload smaller if the prepared copy would upscale past the server's limit
+      const sourceUrl = mode === 'upscale' && preparedImage && selectedFile &&
+        Math.max(preparedImage.width, preparedImage.height) > upscaleSourceEdge
+        ? (await prepareImage(selectedFile, { maxEdge: upscaleSourceEdge })).dataUrl
+        : previewUrl;
+      // Matches the prompt the server stores on the records
+      const recordPrompt = mode === 'upscale'
+        ? `Upscale ${scale}x`
+        : selectedPreset ? (prompt ? `${selectedPreset.name}: ${prompt}` : selectedPreset.name) : prompt;
+      const result = await GeminiService.transformImage(
+        parentRecord ? null : sourceUrl,
+        prompt,
+        {
+          mode,
+          scale,
+          count: requestedCount,
+          parentImageId: parentRecord?.id,
+          maskBase64: isMasking ? maskDataUrl : null,
+          presetId: selectedPreset?.id,
+          presetParams: selectedPreset ? presetParams : undefined
+        },
+        { onQueued: StorageService.setPendingJob, onProgress: setProgress }
+      );
+
+      // 2. SHOW THE RESULT (one record per variation, linked server-side by the group id)
+      showResult(result, sourceUrl, recordPrompt, { parentImageId: parentRecord?.id, presetId: selectedPreset?.id });
+      await afterGeneration(result);
 
     } catch (err: any) {
-      setError(err.message || "Transformation failed. Please try a different prompt.");
-      if (err.message.includes("Insufficient credits")) {
-          setShowPaymentModal(true);
-      }
-      StorageService.logEvent({ type: 'GENERATION_FAILURE', timestamp: Date.now(), details: err.message });
+      stillRunning = isStillRunning(err);
+      handleGenerationError(err);
     } finally {
+      if (!stillRunning) StorageService.clearPendingJob();
       setIsGenerating(false);
+      setProgress(null);
+    }
+  };
+
+  const progressLabel = !progress || progress.stage === 'queued'
+    ? queuedLabel(progress?.queue)
+    : progress.stage === 'saving'
+      ? 'Saving...'
+      : progress.total && progress.total > 1
+        ? `Generating ${Math.min((progress.completed || 0) + 1, progress.total)}/${progress.total}...`
+        : 'Processing Image...';
+
+  const handleDownload = async () => {
+    if (!selectedResult) return;
+    try {
+      const link = document.createElement('a');
+      link.download = `upscale-img-${Date.now()}.${extensionForMimeType(selectedResult.mimeType)}`;
+
+      // Signed URLs can be cross-origin, where the download attribute is ignored
+      const blob = selectedResult.generationId
+        ? await GeminiService.downloadOriginal(selectedResult.generationId)
+        : await (await fetch(selectedResult.image)).blob();
+      link.href = URL.createObjectURL(blob);
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000);
+    } catch (err: any) {
+      setError(err.message || "Could not download image. Please try again.");
     }
   };
 
-  const handleUnlockRedirect = () => {
+  const currentImageId = currentRecord ? currentRecord.id : null;
+
+  const handleUnlockRedirect = async () => {
     if (!user.isAuthenticated) {
         navigate('/signup');
         return;
@@ -215,37 +360,42 @@ export const Generator: React.FC = () => {
         return;
     }
 
-    const plan = PLANS.find(p => p.id === PlanTier.NONE);
-    if (!plan || !plan.paymentLink) {
-        console.error("Plan configuration missing");
-        setError("Payment system configuration error.");
-        return;
-    }
-
     setIsRedirecting(true);
 
     // Set pending transaction locally (Primary Method)
     StorageService.setPendingTransaction(PlanTier.NONE, currentImageId);
     
-    // Redirect to Stripe with IDs (Backup Method for Tracking)
-    const separator = plan.paymentLink.includes('?') ? '&' : '?';
-    const params = new URLSearchParams();
-    params.append('prefilled_email', user.email);
-    // CRITICAL: Pass image ID to Stripe Session via client_reference_id
-    params.append('client_reference_id', currentImageId);
-
-    const finalLink = `${plan.paymentLink}${separator}${params.toString()}`;
-    
-    window.location.href = finalLink;
+    try {
+        // The server creates the Checkout Session with this image attached
+        const checkoutUrl = await PaymentService.createCheckout(PlanTier.NONE, currentImageId);
+        window.location.href = checkoutUrl;
+    } catch (err: any) {
+        console.error("Checkout error:", err);
+        setError(err.message || "Payment system configuration error.");
+        setShowPaymentModal(false);
+        setIsRedirecting(false);
+    }
   };
 
-  const getCurrentRecord = () => {
-      if (!currentImageId) return null;
-      const images = StorageService.getImages();
-      return images.find(i => i.id === currentImageId);
+  const handleUnlockWithCredit = async () => {
+    if (!currentImageId) return;
+
+    setIsUnlocking(true);
+    try {
+        // The server spends the credit and unlocks the record atomically
+        await PaymentService.unlockWithCredit(currentImageId);
+        setVariationRecords(prev => prev.map(record => record.id === currentImageId ? { ...record, isUnlocked: true } : record));
+        const updatedUser = await StorageService.syncUser();
+        setUser(updatedUser);
+        setShowPaymentModal(false);
+    } catch (err: any) {
+        setError(err.message || "Could not unlock image. Please try again.");
+        setShowPaymentModal(false);
+    } finally {
+        setIsUnlocking(false);
+    }
   };
 
-  const currentRecord = getCurrentRecord();
   const isUnlocked = currentRecord ? currentRecord.isUnlocked : false;
 
   return (
@@ -254,8 +404,12 @@ export const Generator: React.FC = () => {
       {!user.isAuthenticated && (
         <div className="bg-camel-50 border border-camel-200 p-4 rounded-lg mb-6 flex flex-col sm:flex-row justify-between items-center gap-4">
           <div>
-            <p className="text-navy-900 font-bold">Try for Free</p>
-            <p className="text-sm text-slate-600">Generate unlimited previews. Sign up and pay to download the high-resolution, watermark-free versions.</p>
+            <p className="text-navy-900 font-bold">{user.hasUsedFreeGen ? "You've used today's free preview" : 'Try for Free'}</p>
+            <p className="text-sm text-slate-600">
+              {user.hasUsedFreeGen
+                ? 'Sign up to keep generating. Your preview moves into your account when you do.'
+                : 'Generate a free preview every day. Sign up and pay to download the high-resolution, watermark-free versions.'}
+            </p>
           </div>
           <button onClick={() => navigate('/signup')} className="whitespace-nowrap bg-navy-800 text-white px-4 py-2 rounded text-sm font-medium hover:bg-navy-900">
             Sign Up to Save
@@ -269,54 +423,179 @@ export const Generator: React.FC = () => {
         <div className="space-y-6">
           <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
             <h2 className="text-lg font-medium text-navy-900 mb-4">1. Upload Source Image</h2>
-            <div 
-              className={`border-2 border-dashed rounded-lg p-10 text-center cursor-pointer transition-colors relative ${previewUrl ? 'border-camel-500 bg-tan-100' : 'border-slate-300 hover:border-slate-400 bg-white'}`}
-              onClick={() => !isProcessing && fileInputRef.current?.click()}
-            >
-              <input 
-                type="file" 
-                ref={fileInputRef} 
-                className="hidden" 
-                accept="image/jpeg, image/png, image/webp, image/heic, image/heif, .heic, .heif" 
-                onChange={handleFileChange}
-              />
-              
-              {isProcessing ? (
-                <div className="py-10 flex flex-col items-center">
-                    <svg className="animate-spin h-8 w-8 text-camel-600 mb-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            {parentRecord && (
+              <p className="text-sm text-slate-600 mb-3">
+                Editing your result for "<span className="font-medium text-navy-900">{parentRecord.prompt}</span>". Upload a new image to start over.
+              </p>
+            )}
+            <input 
+              type="file" 
+              ref={fileInputRef} 
+              className="hidden" 
+              accept="image/jpeg, image/png, image/webp, image/heic, image/heif, .heic, .heif" 
+              onChange={handleFileChange}
+            />
+            {isMasking && previewUrl ? (
+              <>
+                <MaskEditor imageUrl={previewUrl} onChange={setMaskDataUrl} disabled={isGenerating} />
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isGenerating}
+                  className="mt-3 text-sm font-medium text-camel-600 hover:text-camel-700"
+                >
+                  Upload a different image
+                </button>
+              </>
+            ) : (
+              <div 
+                className={`border-2 border-dashed rounded-lg p-10 text-center cursor-pointer transition-colors relative ${previewUrl ? 'border-camel-500 bg-tan-100' : 'border-slate-300 hover:border-slate-400 bg-white'}`}
+                onClick={() => !isProcessing && fileInputRef.current?.click()}
+              >
+                {isProcessing ? (
+                  <div className="py-10 flex flex-col items-center">
+                      <svg className="animate-spin h-8 w-8 text-camel-600 mb-2" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                      </svg>
+                      <p className="text-sm text-slate-500">Optimizing image...</p>
+                  </div>
+                ) : previewUrl ? (
+                  <img src={previewUrl} alt="Preview" className="max-h-64 max-w-full mx-auto rounded shadow-sm" />
+                ) : (
+                  <div className="space-y-2">
+                    <svg className="mx-auto h-12 w-12 text-slate-400" stroke="currentColor" fill="none" viewBox="0 0 48 48">
+                      <path d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
                     </svg>
-                    <p className="text-sm text-slate-500">Optimizing image...</p>
-                </div>
-              ) : previewUrl ? (
-                <img src={previewUrl} alt="Preview" className="max-h-64 max-w-full mx-auto rounded shadow-sm" />
-              ) : (
-                <div className="space-y-2">
-                  <svg className="mx-auto h-12 w-12 text-slate-400" stroke="currentColor" fill="none" viewBox="0 0 48 48">
-                    <path d="M28 8H12a4 4 0 00-4 4v20m32-12v8m0 0v8a4 4 0 01-4 4H12a4 4 0 01-4-4v-4m32-4l-3.172-3.172a4 4 0 00-5.656 0L28 28M8 32l9.172-9.172a4 4 0 015.656 0L28 28m0 0l4 4m4-24h8m-4-4v8m-12 4h.02" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                  </svg>
-                  <p className="text-sm text-slate-600">Click to upload or drag and drop</p>
-                  <p className="text-xs text-slate-500">JPG, PNG, HEIC (Auto-optimized)</p>
-                </div>
-              )}
-            </div>
+                    <p className="text-sm text-slate-600">Click to upload or drag and drop</p>
+                    <p className="text-xs text-slate-500">JPG, PNG, WebP, HEIC · up to {maxUploadEdge}px (Auto-optimized)</p>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
             <div className="flex justify-between items-center mb-4">
-               <h2 className="text-lg font-medium text-navy-900">2. Describe Transformation</h2>
+               <h2 className="text-lg font-medium text-navy-900">
+                 {mode === 'edit' ? '2. Describe Transformation' : '2. Choose Upscale Factor'}
+               </h2>
+               <div className="inline-flex rounded-md border border-slate-300 overflow-hidden text-sm">
+                 {(['edit', 'upscale'] as GenerationMode[]).map((option) => (
+                   <button
+                     key={option}
+                     onClick={() => setMode(option)}
+                     disabled={isGenerating}
+                     className={`px-3 py-1 font-medium ${mode === option ? 'bg-navy-800 text-white' : 'bg-white text-navy-800 hover:bg-slate-50'}`}
+                   >
+                     {option === 'edit' ? 'Transform' : 'Upscale'}
+                   </button>
+                 ))}
+               </div>
             </div>
             
-            <textarea
-              className="w-full border border-slate-300 rounded-md p-3 focus:ring-camel-500 focus:border-camel-500 h-32 bg-white text-navy-900"
-              placeholder="E.g., Change the background to a modern office, make the lighting warmer, change the shirt to a navy blazer..."
-              value={prompt}
-              onChange={(e) => setPrompt(e.target.value)}
-            ></textarea>
-            <p className="text-xs text-slate-500 mt-2">
-              Tip: Be specific about clothing and background. Facial features will be preserved automatically.
-            </p>
+            {mode === 'edit' ? (
+              <>
+                {presets.length > 0 && (
+                  <div className="mb-4">
+                    <div className="flex flex-wrap gap-2">
+                      {[null, ...presets].map((preset) => (
+                        <button
+                          key={preset ? preset.id : 'custom'}
+                          onClick={() => handleSelectPreset(preset)}
+                          disabled={isGenerating}
+                          className={`px-3 py-1 rounded-full border text-sm font-medium ${(preset ? preset.id : null) === (selectedPreset ? selectedPreset.id : null) ? 'border-navy-800 bg-navy-800 text-white' : 'border-slate-300 bg-white text-navy-800 hover:bg-slate-50'}`}
+                        >
+                          {preset ? preset.name : 'Custom'}
+                        </button>
+                      ))}
+                    </div>
+                    {selectedPreset && (
+                      <div className="mt-3 space-y-2">
+                        <p className="text-xs text-slate-500">{selectedPreset.description}</p>
+                        {selectedPreset.params.map((param) => (
+                          <label key={param.id} className="flex items-center gap-3 text-sm text-navy-900">
+                            <span className="w-20 font-medium">{param.label}</span>
+                            <select
+                              value={presetParams[param.id] || param.default}
+                              onChange={(e) => setPresetParams(prev => ({ ...prev, [param.id]: e.target.value }))}
+                              disabled={isGenerating}
+                              className="border border-slate-300 rounded-md px-2 py-1 bg-white"
+                            >
+                              {param.options.map((option) => (
+                                <option key={option.id} value={option.id}>{option.label}</option>
+                              ))}
+                            </select>
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                <textarea
+                  className="w-full border border-slate-300 rounded-md p-3 focus:ring-camel-500 focus:border-camel-500 h-32 bg-white text-navy-900"
+                  placeholder={selectedPreset
+                    ? "Optional: add details, e.g. keep my glasses, add a subtle smile..."
+                    : "E.g., Change the background to a modern office, make the lighting warmer, change the shirt to a navy blazer..."}
+                  value={prompt}
+                  maxLength={MAX_PROMPT_LENGTH}
+                  onChange={(e) => setPrompt(e.target.value)}
+                ></textarea>
+                <p className="text-xs text-slate-500 mt-2">
+                  Tip: Be specific about clothing and background. Facial features will be preserved automatically.
+                </p>
+                <label className="mt-4 flex items-center gap-2 text-sm text-navy-900">
+                  <input
+                    type="checkbox"
+                    checked={useMask}
+                    onChange={(e) => setUseMask(e.target.checked)}
+                    disabled={isGenerating}
+                    className="rounded border-slate-300 text-camel-600 focus:ring-camel-500"
+                  />
+                  Only change a painted area
+                </label>
+                {user.isAuthenticated && (
+                  <div className="mt-4 flex items-center gap-3">
+                    <span className="text-sm text-navy-900 font-medium">Variations</span>
+                    <div className="inline-flex rounded-md border border-slate-300 overflow-hidden text-sm">
+                      {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map((n) => (
+                        <button
+                          key={n}
+                          onClick={() => setCount(n)}
+                          disabled={isGenerating}
+                          className={`px-3 py-1 font-medium ${count === n ? 'bg-navy-800 text-white' : 'bg-white text-navy-800 hover:bg-slate-50'}`}
+                        >
+                          {n}
+                        </button>
+                      ))}
+                    </div>
+                    <span className="text-xs text-slate-500">{creditCost} credit{creditCost === 1 ? '' : 's'}</span>
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  {UPSCALE_FACTORS.map((factor) => (
+                    <button
+                      key={factor}
+                      onClick={() => setScale(factor)}
+                      disabled={isGenerating}
+                      className={`rounded-md border p-4 text-left transition-colors ${scale === factor ? 'border-camel-500 bg-camel-50 ring-1 ring-camel-500' : 'border-slate-300 bg-white hover:border-slate-400'}`}
+                    >
+                      <span className="block text-xl font-bold text-navy-900">{factor}x</span>
+                      <span className="block text-xs text-slate-500">
+                        {UPSCALE_CREDIT_COSTS[factor]} credit{UPSCALE_CREDIT_COSTS[factor] === 1 ? '' : 's'}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-500 mt-2">
+                  {upscaleTarget
+                    ? `Output: ${upscaleTarget.width} × ${upscaleTarget.height} px`
+                    : 'Upload an image to see the output size.'}
+                </p>
+              </>
+            )}
           </div>
 
           {error && (
@@ -326,11 +605,44 @@ export const Generator: React.FC = () => {
             </div>
           )}
 
+          {notice?.kind === 'blocked' && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded relative">
+              <strong className="font-bold">Request blocked: </strong>
+              <span className="block sm:inline">{notice.message}</span>
+            </div>
+          )}
+
+          {notice?.kind === 'quota' && (
+            <div className="bg-camel-50 border border-camel-200 text-navy-900 px-4 py-3 rounded relative flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <span className="text-sm">{notice.message}</span>
+              <button onClick={() => navigate('/signup')} className="whitespace-nowrap bg-navy-800 text-white px-4 py-2 rounded text-sm font-medium hover:bg-navy-900">
+                Sign Up
+              </button>
+            </div>
+          )}
+
+          {notice?.kind === 'no_change' && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded relative">
+              <p className="font-bold">No changes were made, so no credits were charged.</p>
+              {notice.message && <p className="text-sm mt-1">The AI replied: {notice.message}</p>}
+              <p className="text-sm mt-1">Try rephrasing your prompt{notice.message ? ' with this in mind' : ' or using a clearer photo'}.</p>
+            </div>
+          )}
+
+          {notice?.kind === 'pending' && (
+            <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded relative flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <span className="text-sm">{notice.message}</span>
+              <button onClick={resumePendingJob} className="whitespace-nowrap bg-navy-800 text-white px-4 py-2 rounded text-sm font-medium hover:bg-navy-900">
+                Check Again
+              </button>
+            </div>
+          )}
+
           <button
             onClick={handleGenerate}
-            disabled={isGenerating || isProcessing || !previewUrl || !prompt}
+            disabled={isGenerating || isProcessing || !previewUrl || missingPrompt}
             className={`w-full py-4 px-6 border border-transparent rounded-md shadow-sm text-lg font-medium text-white 
-              ${isGenerating || isProcessing || !previewUrl || !prompt ? 'bg-slate-400 cursor-not-allowed' : 'bg-camel-600 hover:bg-camel-700'}`}
+              ${isGenerating || isProcessing || !previewUrl || missingPrompt ? 'bg-slate-400 cursor-not-allowed' : 'bg-camel-600 hover:bg-camel-700'}`}
           >
             {isGenerating ? (
               <span className="flex items-center justify-center">
@@ -338,11 +650,15 @@ export const Generator: React.FC = () => {
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Processing Image...
+                {progressLabel}
               </span>
             ) : (
                 <span>
-                    {!user.isAuthenticated ? "Generate Free Preview (Watermarked)" : "Generate Transformation"}
+                    {!user.isAuthenticated
+                      ? "Generate Free Preview (Watermarked)"
+                      : mode === 'upscale'
+                        ? `Upscale ${scale}x (${creditCost} credit${creditCost === 1 ? '' : 's'})`
+                        : requestedCount > 1 ? `Generate ${requestedCount} Variations` : "Generate Transformation"}
                 </span>
             )}
           </button>
@@ -374,6 +690,22 @@ export const Generator: React.FC = () => {
                     <div className="absolute inset-0 bg-black/10 z-20"></div>
                  )}
               </div>
+
+              {/* Variation Picker */}
+              {lastResult && lastResult.variations.length > 1 && (
+                <div className="grid grid-cols-5 gap-2">
+                  {lastResult.variations.map((variation, index) => (
+                    <button
+                      key={variation.generationId || index}
+                      onClick={() => setSelectedVariation(index)}
+                      className={`aspect-square rounded overflow-hidden border-2 ${index === selectedVariation ? 'border-camel-500' : 'border-transparent hover:border-slate-300'}`}
+                      aria-label={`Show variation ${index + 1}`}
+                    >
+                      <img src={variation.image} alt={`Variation ${index + 1}`} className="w-full h-full object-cover" />
+                    </button>
+                  ))}
+                </div>
+              )}
               
               <div className="flex justify-between items-center bg-white p-4 rounded border border-slate-200">
                 <div>
@@ -383,15 +715,31 @@ export const Generator: React.FC = () => {
                     <p className="text-xs text-slate-500">
                         {isUnlocked ? 'Ready for download' : (user.isAuthenticated ? 'Purchase to remove watermark' : 'Log in & Pay to download')}
                     </p>
+                    {lastResult && selectedResult?.width && selectedResult?.height && (
+                      <p className="text-xs text-slate-500">
+                        {lastResult.mode === 'upscale' ? `Upscaled ${lastResult.scale}x · ` : ''}
+                        {selectedResult.width} × {selectedResult.height} px{!isUnlocked ? ' (full resolution after unlock)' : ''}
+                      </p>
+                    )}
                 </div>
                 {isUnlocked ? (
-                    <a 
-                      href={generatedImage} 
-                      download={`upscale-img-${Date.now()}.jpg`}
-                      className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
-                    >
-                      Download HD
-                    </a>
+                    <div className="flex gap-2">
+                      {currentRecord && selectedResult?.imageId && (
+                        <button 
+                          onClick={() => startEditingFrom(currentRecord)}
+                          disabled={isGenerating}
+                          className="border border-navy-800 text-navy-800 hover:bg-slate-50 px-4 py-2 rounded text-sm font-medium transition-colors"
+                        >
+                          Edit this result
+                        </button>
+                      )}
+                      <button 
+                        onClick={handleDownload}
+                        className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded text-sm font-medium transition-colors"
+                      >
+                        Download HD
+                      </button>
+                    </div>
                 ) : (
                     <button 
                       onClick={!user.isAuthenticated ? () => navigate('/signup') : () => setShowPaymentModal(true)}
@@ -454,6 +802,16 @@ export const Generator: React.FC = () => {
                 >
                   {isRedirecting ? 'Redirecting...' : 'Pay & Unlock'}
                 </button>
+                {user.credits > 0 && (
+                  <button 
+                      type="button"
+                      onClick={handleUnlockWithCredit}
+                      disabled={isUnlocking || isRedirecting || !currentImageId}
+                      className={`mt-3 w-full inline-flex justify-center rounded-md border border-camel-600 shadow-sm px-4 py-2 bg-white text-base font-medium text-camel-700 hover:bg-camel-50 focus:outline-none sm:mt-0 sm:ml-3 sm:w-auto sm:text-sm ${(isUnlocking || isRedirecting) ? 'opacity-75 cursor-not-allowed' : ''}`}
+                  >
+                    {isUnlocking ? 'Unlocking...' : 'Use 1 Credit'}
+                  </button>
+                )}
                 <button 
                     type="button" 
                     onClick={() => setShowPaymentModal(false)}
@@ -7,11 +7,11 @@ export const PaymentSuccess: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const [status, setStatus] = useState<'PROCESSING' | 'SUCCESS' | 'ERROR'>('PROCESSING');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   useEffect(() => {
     const processPaymentReturn = async () => {
       const sessionId = searchParams.get('session_id');
-      const pendingTxn = StorageService.getPendingTransaction();
 
       if (!sessionId) {
         setStatus('ERROR');
@@ -33,27 +33,10 @@ export const PaymentSuccess: React.FC = () => {
             body: JSON.stringify({ sessionId })
         });
 
-        if (!response.ok) throw new Error("Verification failed");
+        const data = await response.json().catch(() => null);
+        if (!response.ok) throw new Error(data?.error || "Verification failed");
 
-        const data = await response.json();
-        const clientRefId = data.clientReferenceId;
-
-        // 3. Handle specific Image Unlock
-        // Priority: Use local pending transaction ID. 
-        // Fallback: Use clientReferenceId from Stripe session (if it looks like an ID, not a user ID)
-        
-        let imageToUnlock = pendingTxn?.imageId;
-        
-        if (!imageToUnlock && clientRefId && clientRefId !== session.user.id) {
-             // If clientRefId is NOT the user ID, assume it's an image ID
-             imageToUnlock = clientRefId;
-        }
-
-        if (imageToUnlock) {
-            await StorageService.updateImage(imageToUnlock, { isUnlocked: true });
-        }
-
-        // 4. Sync new credits
+        // 3. Sync new credits (any image unlock already happened server-side)
         await StorageService.syncUser();
 
         setStatus('SUCCESS');
@@ -63,8 +46,9 @@ export const PaymentSuccess: React.FC = () => {
             navigate('/dashboard');
         }, 3000);
 
-      } catch (error) {
+      } catch (error: any) {
         console.error(error);
+        setErrorMessage(error.message || null);
         setStatus('ERROR');
       }
     };
@@ -111,7 +95,8 @@ export const PaymentSuccess: React.FC = () => {
                 </svg>
              </div>
              <h2 className="text-2xl font-bold text-navy-900 mb-2">Verification Failed</h2>
-             <p className="text-slate-500 mb-6">We couldn't verify this transaction with Stripe. Please contact support if you were charged.</p>
+             <p className="text-slate-500 mb-4">We couldn't verify this transaction with Stripe. Please contact support if you were charged.</p>
+             {errorMessage && <p className="text-sm text-red-600 mb-4">{errorMessage}</p>}
              <button onClick={() => navigate('/dashboard')} className="w-full border border-navy-800 text-navy-800 py-3 rounded font-medium hover:bg-slate-50">
                  Return to Dashboard
              </button>
@@ -0,0 +1,115 @@
+// One-off migration: moves legacy base64 image columns into the object
+// store, records keys and file facts, then empties the base64 columns.
+// Every image gets a gallery thumbnail; locked images also get a
+// watermarked preview. Safe to re-run; rows that
+// were already moved are skipped.
+//
+// Usage: node scripts/migrate-image-bytes.js [--dry-run]
+const dotenv = require('dotenv');
+
+dotenv.config();
+
+const supabaseAdmin = require('../api/supabaseClient.js');
+const { getObjectStore } = require('../api/objectStore/index.js');
+const { describeImage, extensionFor } = require('../api/imageInfo.js');
+const { createWatermarkedPreview } = require('../api/watermark.js');
+const { createThumbnail } = require('../api/thumbnails.js');
+
+const BATCH_SIZE = 20;
+const dryRun = process.argv.includes('--dry-run');
+
+const decode = (dataUrl) => Buffer.from(dataUrl.replace(/^data:image\/\w+;base64,/, ''), 'base64');
+
+// Uploads one base64 column and returns the matching key/fact columns
+const moveColumn = async (objectStore, prefix, column, imageId, dataUrl) => {
+  const buffer = decode(dataUrl);
+  const info = await describeImage(buffer);
+  const key = `${prefix}/${imageId}.${extensionFor(info.mimeType)}`;
+  if (!dryRun) await objectStore.put(key, buffer, info.mimeType);
+
+  return {
+    buffer,
+    fields: {
+      [`${column}_key`]: key,
+      [`${column}_mime_type`]: info.mimeType,
+      [`${column}_width`]: info.width,
+      [`${column}_height`]: info.height,
+      [`${column}_size_bytes`]: info.sizeBytes
+    }
+  };
+};
+
+const migrateRow = async (objectStore, row) => {
+  const update = { original_image_base64: null, generated_image_base64: null };
+
+  let thumbnailSource = null;
+
+  if (row.original_image_base64 && !row.original_key) {
+    const { buffer, fields } = await moveColumn(objectStore, 'originals', 'original', row.id, row.original_image_base64);
+    Object.assign(update, fields);
+    thumbnailSource = buffer;
+  }
+
+  if (row.generated_image_base64 && !row.generated_key) {
+    const { buffer, fields } = await moveColumn(objectStore, 'generations', 'generated', row.id, row.generated_image_base64);
+    Object.assign(update, fields);
+    thumbnailSource = buffer;
+
+    if (!row.is_unlocked) {
+      const preview = await createWatermarkedPreview(buffer);
+      update.preview_key = `previews/${row.id}.jpg`;
+      if (!dryRun) await objectStore.put(update.preview_key, Buffer.from(preview.imageBase64, 'base64'), preview.mimeType);
+    }
+  }
+
+  if (thumbnailSource && !row.thumbnail_key) {
+    const thumbnail = await createThumbnail(thumbnailSource);
+    update.thumbnail_key = `thumbnails/${row.id}.${extensionFor(thumbnail.mimeType)}`;
+    if (!dryRun) await objectStore.put(update.thumbnail_key, thumbnail.buffer, thumbnail.mimeType);
+  }
+
+  if (dryRun) return;
+  const { error } = await supabaseAdmin.from('images').update(update).eq('id', row.id);
+  if (error) throw new Error(`Failed to update image ${row.id}: ${error.message}`);
+};
+
+const main = async () => {
+  const objectStore = getObjectStore();
+  console.log(`Migrating image bytes to the "${objectStore.name}" object store${dryRun ? ' (dry run)' : ''}`);
+
+  let migrated = 0;
+  let failed = 0;
+  let offset = 0;
+
+  while (true) {
+    // Migrated rows drop out of this filter; failed ones sort first and are skipped by the offset
+    const { data: rows, error } = await supabaseAdmin
+      .from('images')
+      .select('id, is_unlocked, original_image_base64, generated_image_base64, original_key, generated_key, thumbnail_key')
+      .or('original_image_base64.not.is.null,generated_image_base64.not.is.null')
+      .order('id')
+      .range(offset, offset + BATCH_SIZE - 1);
+    if (error) throw new Error(`Failed to read images: ${error.message}`);
+    if (!rows.length) break;
+
+    for (const row of rows) {
+      try {
+        await migrateRow(objectStore, row);
+        migrated += 1;
+      } catch (err) {
+        failed += 1;
+        console.error(`Skipping image ${row.id}:`, err.message);
+      }
+    }
+
+    offset = dryRun ? offset + rows.length : failed;
+  }
+
+  console.log(`Done. Migrated ${migrated} image(s), ${failed} failed.`);
+  process.exit(failed ? 1 : 0);
+};
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,36 @@
+// Signs a fixture event with STRIPE_WEBHOOK_SECRET and posts it to the
+// local webhook, exactly as Stripe would. No Stripe account or network needed.
+//
+// Usage: node scripts/send-stripe-fixture.js invoice.paid [http://localhost:3001]
+const fs = require('fs');
+const path = require('path');
+const dotenv = require('dotenv');
+const Stripe = require('stripe');
+
+dotenv.config();
+
+const [fixtureName, baseUrl = `http://localhost:${process.env.PORT || 3001}`] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+if (!fixtureName || !secret) {
+  console.error("Usage: STRIPE_WEBHOOK_SECRET=whsec_... node scripts/send-stripe-fixture.js <fixture> [baseUrl]");
+  process.exit(1);
+}
+
+const fixturePath = path.join(__dirname, '..', 'fixtures', 'stripe', `${fixtureName}.json`);
+const payload = fs.readFileSync(fixturePath, 'utf8');
+const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+fetch(`${baseUrl}/api/stripe/webhook`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+  body: payload
+})
+  .then(async (response) => {
+    console.log(response.status, await response.text());
+    process.exit(response.ok ? 0 : 1);
+  })
+  .catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
@@ -1,76 +1,219 @@
 import { supabase } from './supabaseClient';
+import { StorageService } from './storageService';
+import { GenerationMode, GenerationProgress, GenerationResult, GenerationVariation, GenerationErrorCode, StylePreset } from '../types';
+
+const POLL_INTERVAL_MS = 1500;
+// How long resumeJob waits before handing back to the user; the job keeps running
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+// Polls in a row that may fail to reach the server (e.g. a dropped connection)
+const MAX_POLL_FAILURES = 5;
+
+// Carries the server's error code, so the UI can tell blocked and
+// no-change requests (neither is charged) apart from failures
+export class GenerationError extends Error {
+  code: GenerationErrorCode | null;
+  category: string | null;
+  retryAfter: number | null; // Seconds to wait when rate limited (Retry-After)
+
+  constructor(message: string, details: { code?: GenerationErrorCode | null; category?: string | null; retryAfter?: number | null } = {}) {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = details.code || null;
+    this.category = details.category || null;
+    this.retryAfter = details.retryAfter ?? null;
+  }
+}
+
+const authHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  // Only attach token if logged in
+  return session?.access_token ? { 'Authorization': `Bearer ${session.access_token.trim()}` } : {};
+};
+
+// Guests identify themselves with their guest token instead (free preview allowance)
+const generateHeaders = async (): Promise<Record<string, string>> => {
+  const headers = await authHeaders();
+  return headers.Authorization ? headers : { 'X-Guest-Token': await StorageService.getGuestToken() };
+};
+
+// We attempt to parse JSON regardless of status code to get the error message
+const readResponse = async (response: Response) => {
+  let data: any = null;
+  const contentType = response.headers.get('content-type');
+
+  if (contentType && contentType.includes('application/json')) {
+    try {
+        data = await response.json();
+    } catch (e) {
+        console.warn("Failed to parse JSON error response", e);
+    }
+  } else {
+    // Handle HTML responses (often Vercel 500/504 pages)
+    const text = await response.text();
+    console.error("Non-JSON response from server:", text);
+
+    if (response.status === 413) throw new Error("Image too large (Server Limit).");
+    if (response.status === 504) throw new Error("Server timeout. Try a smaller image.");
+    if (response.status === 500) throw new Error("Internal Server Error (Infrastructure).");
+    throw new Error(`Server returned unexpected format: ${response.status}`);
+  }
+
+  if (!response.ok) {
+    // Throw the specific error message from the server if available
+    const retryAfter = response.status === 429 ? Number(response.headers.get('Retry-After')) || null : null;
+    throw new GenerationError(data?.error || `Request failed with status ${response.status}`, { code: data?.code, category: data?.category, retryAfter });
+  }
+  return data;
+};
+
+const toResult = (result: any): GenerationResult => {
+  const variations: GenerationVariation[] = result.variations.map((v: any) => ({
+      image: v.image,
+      generationId: v.generationId || null,
+      imageId: v.imageId || null,
+      mimeType: v.mimeType ?? null,
+      width: v.width ?? null,
+      height: v.height ?? null
+  }));
+  // The model can answer with text only (e.g. asking for clarification).
+  // The error's message is that text, empty when the model said nothing.
+  if (result.outcome === 'no_change' || variations.length === 0) {
+    throw new GenerationError(result.guidance || '', { code: 'NO_CHANGE' });
+  }
+
+  return {
+      ...variations[0],
+      groupId: result.groupId || null,
+      variations,
+      isPreview: Boolean(result.isPreview),
+      mode: result.mode,
+      scale: result.scale ?? null,
+      message: result.message || ''
+  };
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export const GeminiService = {
   /**
-   * Generates a transformed image by calling the secure backend API.
+   * Queues a generation on the secure backend API and waits for it to finish.
    * Works for both Authenticated Users and Guests.
+   * In 'upscale' mode the prompt is ignored and `scale` (2 or 4) is required.
+   * Edits may request `count` variations; each is charged separately.
+   * Pass `parentImageId` (and no image) to edit a saved result further.
+   * `maskBase64` (PNG, white = change) limits an edit to the painted area.
+   * With a `presetId` the server builds the prompt; `userPrompt` only adds details.
+   * `onQueued` receives the job id (e.g. to resume after a page reload).
    */
   transformImage: async (
-    imageBase64: string,
-    userPrompt: string
-  ): Promise<string> => {
+    imageBase64: string | null,
+    userPrompt: string,
+    options: {
+      mode?: GenerationMode;
+      scale?: number;
+      count?: number;
+      parentImageId?: string;
+      maskBase64?: string | null;
+      presetId?: string | null;
+      presetParams?: Record<string, string>;
+    } = {},
+    callbacks: { onQueued?: (jobId: string) => void; onProgress?: (progress: GenerationProgress) => void } = {}
+  ): Promise<GenerationResult> => {
+    const mode = options.mode || 'edit';
     
     try {
-      // 1. Try to get current session token
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      const headers: any = {
-        'Content-Type': 'application/json'
-      };
-
-      // Only attach token if logged in
-      if (session?.access_token) {
-        headers['Authorization'] = `Bearer ${session.access_token.trim()}`;
-      }
-
-      // 2. Call Backend
       const response = await fetch('/api/generate', {
         method: 'POST',
-        headers: headers,
+        headers: { 'Content-Type': 'application/json', ...(await generateHeaders()) },
         body: JSON.stringify({
             imageBase64,
-            prompt: userPrompt
+            prompt: userPrompt,
+            mode,
+            scale: options.scale,
+            count: options.count,
+            parentImageId: options.parentImageId,
+            maskBase64: options.maskBase64 || undefined,
+            presetId: options.presetId || undefined,
+            presetParams: options.presetParams
         })
       });
 
-      // 3. Robust Response Handling
-      // We attempt to parse JSON regardless of status code to get the error message
-      let data: any = null;
-      const contentType = response.headers.get('content-type');
-      
-      if (contentType && contentType.includes('application/json')) {
-        try {
-            data = await response.json();
-        } catch (e) {
-            console.warn("Failed to parse JSON error response", e);
-        }
-      } else {
-        // Handle HTML responses (often Vercel 500/504 pages)
-        const text = await response.text();
-        console.error("Non-JSON response from server:", text);
-        
-        if (response.status === 413) throw new Error("Image too large (Server Limit).");
-        if (response.status === 504) throw new Error("Server timeout. Try a smaller image.");
-        if (response.status === 500) throw new Error("Internal Server Error (Infrastructure).");
-        throw new Error(`Server returned unexpected format: ${response.status}`);
-      }
-
-      if (!response.ok) {
-        // Throw the specific error message from the server if available
-        const errorMessage = data?.error || `Request failed with status ${response.status}`;
-        throw new Error(errorMessage);
-      }
+      const data = await readResponse(response);
+      if (!data?.jobId) throw new Error("Server accepted the request but returned no job.");
 
-      if (data && data.success && data.image) {
-          return data.image;
-      } else {
-          throw new Error("Server returned success but missing image data.");
-      }
+      callbacks.onQueued?.(data.jobId);
+      return await GeminiService.resumeJob(data.jobId, callbacks.onProgress);
 
     } catch (error: any) {
       console.error("Gemini Service Error:", error);
+      if (error instanceof GenerationError) throw error;
       // Ensure the error message is clean for the UI
       throw new Error(error.message || "Failed to connect to image generation server.");
     }
+  },
+
+  /**
+   * The style preset catalog (names and parameter choices).
+   */
+  fetchPresets: async (): Promise<StylePreset[]> => {
+    const data = await readResponse(await fetch('/api/presets'));
+    return data.presets;
+  },
+
+  /**
+   * Polls a queued generation until it succeeds (resolves) or fails (throws).
+   * Gives up after POLL_TIMEOUT_MS, or when the server stays unreachable, with
+   * a JOB_TIMEOUT error: the job is still running and can be resumed later.
+   */
+  resumeJob: async (jobId: string, onProgress?: (progress: GenerationProgress) => void): Promise<GenerationResult> => {
+    const deadline = Date.now() + POLL_TIMEOUT_MS;
+    let failures = 0;
+    while (Date.now() < deadline) {
+      let response: Response;
+      try {
+        response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}`, { headers: await authHeaders() });
+      } catch {
+        failures += 1;
+        if (failures >= MAX_POLL_FAILURES) {
+          throw new GenerationError("We lost the connection while your generation was running. It continues on our servers: check again once you are back online.", { code: 'JOB_TIMEOUT' });
+        }
+        await wait(POLL_INTERVAL_MS * failures);
+        continue;
+      }
+      failures = 0;
+      if (response.status === 429) {
+        // Polling too fast (e.g. several tabs): back off instead of failing the generation
+        await wait((Number(response.headers.get('Retry-After')) || 5) * 1000);
+        continue;
+      }
+      const job = await readResponse(response);
+
+      if (job.status === 'succeeded') return toResult(job.result);
+      if (job.status === 'failed') {
+        throw new GenerationError(job.error?.message || "Generation failed. Please try again.", { code: job.error?.code, category: job.error?.category });
+      }
+
+      if (job.progress) onProgress?.(job.queue ? { ...job.progress, queue: job.queue } : job.progress);
+      await wait(POLL_INTERVAL_MS);
+    }
+    throw new GenerationError("Your generation is taking longer than usual. It continues on our servers: check again in a few minutes.", { code: 'JOB_TIMEOUT' });
+  },
+
+  /**
+   * Fetches the clean, full-resolution output of an unlocked generation.
+   */
+  downloadOriginal: async (generationId: string): Promise<Blob> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Please log in to download images.");
+
+    const response = await fetch(`/api/generations/${encodeURIComponent(generationId)}/download`, {
+      headers: { 'Authorization': `Bearer ${session.access_token}` }
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      throw new Error(data?.error || "Could not download image. Please try again.");
+    }
+    return response.blob();
   }
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+// @ts-ignore
+import heic2any from 'heic2any';
+import { PLANS, PlanTier } from '../types';
+
+// --- UPLOAD LIMITS ---
+// Mirrored on the server by api/uploads.js. Keep MAX_UPLOAD_BYTES in sync.
+export const MAX_UPLOAD_BYTES = 3 * 1024 * 1024;
+
+// Longest edge the server will produce when upscaling (api/upscaler.js)
+export const UPSCALE_MAX_OUTPUT_EDGE = 8192;
+
+export const getMaxUploadEdge = (plan: PlanTier): number =>
+  (PLANS.find(p => p.id === plan) || PLANS.find(p => p.id === PlanTier.NONE))!.maxUploadEdge;
+
+export interface PreparedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number; // Encoded dimensions
+  height: number;
+  naturalWidth: number; // Upright dimensions of the upload before resizing
+  naturalHeight: number;
+  hasAlpha: boolean;
+}
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+// File extension for downloads; matches api/imageInfo.js
+export const extensionForMimeType = (mimeType?: string | null) => (mimeType && EXTENSIONS[mimeType]) || 'jpg';
+
+// Scales width/height down (never up) to fit within max on both edges
+export const fitWithin = (width: number, height: number, max: number) => {
+  const ratio = Math.min(1, max / Math.max(width, height));
+  return { width: Math.round(width * ratio), height: Math.round(height * ratio) };
+};
+
+// --- PIPELINE STEPS ---
+const isHeic = (file: File) =>
+  file.type === 'image/heic' ||
+  file.type === 'image/heif' ||
+  file.name.toLowerCase().endsWith('.heic') ||
+  file.name.toLowerCase().endsWith('.heif');
+
+const convertHeic = async (file: File): Promise<Blob> => {
+  try {
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+    return Array.isArray(converted) ? converted[0] : converted;
+  } catch (e: any) {
+    console.error("HEIC conversion failed:", e);
+    throw new Error("Could not convert HEIC image. Please use a standard JPG or PNG.");
+  }
+};
+
+// Decodes the image upright: EXIF orientation is applied explicitly where
+// createImageBitmap supports it, otherwise by the browser's <img> decoding.
+const decode = async (blob: Blob): Promise<CanvasImageSource & { width: number; height: number }> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+      // Fall through to <img> decoding (e.g. older Safari)
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to load image structure."));
+    };
+    img.src = url;
+  });
+};
+
+// JPEG has no alpha channel, so only other sources are scanned
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number, sourceType: string) => {
+  if (sourceType === 'image/jpeg') return false;
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+let webpEncodingSupported: boolean | null = null;
+const supportsWebpEncoding = () => {
+  if (webpEncodingSupported === null) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    webpEncodingSupported = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+  }
+  return webpEncodingSupported;
+};
+
+const dataUrlBytes = (dataUrl: string) => Math.floor(((dataUrl.length - dataUrl.indexOf(',') - 1) * 3) / 4);
+
+/**
+ * Prepares a user's file for upload: converts HEIC, corrects EXIF orientation,
+ * fits it within maxEdge and encodes it. Transparent images stay WebP (or PNG
+ * where the browser cannot encode WebP); opaque images become JPEG. If the
+ * result exceeds MAX_UPLOAD_BYTES, quality and then size are stepped down.
+ */
+export const prepareImage = async (
+  file: File,
+  { maxEdge, quality = 0.92 }: { maxEdge: number; quality?: number }
+): Promise<PreparedImage> => {
+  const source: Blob = isHeic(file) ? await convertHeic(file) : file;
+  const sourceType = isHeic(file) ? 'image/jpeg' : file.type;
+  const image = await decode(source);
+
+  let { width, height } = fitWithin(image.width, image.height, maxEdge);
+  let currentQuality = quality;
+  let hasAlpha: boolean | null = null;
+
+  for (let attempt = 0; attempt < 8; attempt++) {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Browser does not support image processing.");
+
+    ctx.drawImage(image, 0, 0, width, height);
+    if (hasAlpha === null) hasAlpha = hasTransparency(ctx, width, height, sourceType);
+
+    const mimeType = hasAlpha ? (supportsWebpEncoding() ? 'image/webp' : 'image/png') : 'image/jpeg';
+    const dataUrl = canvas.toDataURL(mimeType, currentQuality);
+
+    if (dataUrlBytes(dataUrl) <= MAX_UPLOAD_BYTES) {
+      return { dataUrl, mimeType, width, height, naturalWidth: image.width, naturalHeight: image.height, hasAlpha };
+    }
+
+    // PNG ignores quality, so it can only shrink
+    if (mimeType !== 'image/png' && currentQuality > 0.7) {
+      currentQuality -= 0.1;
+    } else {
+      ({ width, height } = fitWithin(width, height, Math.round(Math.max(width, height) * 0.8)));
+    }
+  }
+
+  throw new Error("Image could not be compressed enough. Please use a smaller file.");
+};
@@ -0,0 +1,48 @@
+import { PlanTier } from '../types';
+import { supabase } from './supabaseClient';
+
+export const PaymentService = {
+  /**
+   * Asks the backend to create a Stripe Checkout Session for a plan and returns its URL.
+   * The server decides the price and binds the session to the logged-in user.
+   */
+  createCheckout: async (planId: PlanTier, imageId?: string): Promise<string> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Please log in to purchase.");
+
+    const response = await fetch('/api/checkout', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ planId, imageId })
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || !data?.url) {
+      throw new Error(data?.error || "Could not start checkout. Please try again.");
+    }
+    return data.url;
+  },
+
+  /**
+   * Spends one credit to unlock an image. The server performs the unlock.
+   */
+  unlockWithCredit: async (imageId: string): Promise<void> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Please log in to unlock images.");
+
+    const response = await fetch(`/api/images/${encodeURIComponent(imageId)}/unlock`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`
+      }
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(data?.error || "Could not unlock image. Please try again.");
+    }
+  }
+};
@@ -1,10 +1,14 @@
-import { User, PlanTier, ImageRecord, PLANS, UserRole, SupportTicket, Transaction, Payout } from '../types';
+import { User, PlanTier, ImageRecord, ImageSummary, ImagePage, PLANS, UserRole, SupportTicket, Transaction, Payout, ModerationIncident } from '../types';
 import { supabase } from './supabaseClient';
 
 // Keys for Local Caching (Performance/Sync access)
 const USER_KEY = 'upscale_user';
+// Legacy: images used to be cached here in full. Only cleared now.
 const IMAGES_KEY = 'upscale_images';
 const PENDING_TXN_KEY = 'upscale_pending_transaction';
+const PENDING_JOB_KEY = 'upscale_pending_job';
+// Signed by the server; identifies this browser's guest previews until signup
+const GUEST_TOKEN_KEY = 'upscale_guest_token';
 
 const INITIAL_USER: User = {
   id: 'guest',
@@ -21,6 +25,24 @@ const INITIAL_USER: User = {
   transactions: []
 };
 
+// --- API HELPERS ---
+// Image records are served by our backend, which signs short-lived URLs
+const authorizedFetch = async (url: string, init: RequestInit = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error("Not logged in");
+
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      'Authorization': `Bearer ${session.access_token}`
+    }
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(data?.error || `Request failed with status ${response.status}`);
+  return data;
+};
+
 // --- SUPABASE MAPPING HELPERS ---
 const mapProfileToUser = (profile: any, email?: string): User => ({
   id: profile.id,
@@ -30,7 +52,7 @@ const mapProfileToUser = (profile: any, email?: string): User => ({
   plan: (profile.plan as PlanTier) || PlanTier.NONE,
   credits: profile.credits || 0,
   isAuthenticated: true,
-  hasUsedFreeGen: false, // In real app, calculate this from images count
+  hasUsedFreeGen: false, // Only tracked for guests (see syncGuestAllowance)
   joinedAt: profile.joined_at || Date.now(),
   isActive: profile.is_active ?? true,
   isEmailVerified: true, // Supabase handles this
@@ -55,11 +77,6 @@ export const StorageService = {
     return stored ? JSON.parse(stored) : INITIAL_USER;
   },
 
-  getImages: (): ImageRecord[] => {
-    const stored = localStorage.getItem(IMAGES_KEY);
-    return stored ? JSON.parse(stored) : [];
-  },
-
   // --- ASYNC ACTIONS (Supabase) ---
   
   // 1. Sync User State
@@ -76,6 +93,7 @@ export const StorageService = {
         if (profile) {
             const user = mapProfileToUser(profile, session.user.email);
             localStorage.setItem(USER_KEY, JSON.stringify(user));
+            await StorageService.claimGuestPreviews();
             return user;
         }
     } else {
@@ -84,31 +102,77 @@ export const StorageService = {
     return INITIAL_USER;
   },
 
-  // 2. Fetch Images
-  fetchImages: async () => {
+  // 2. Fetch Images, one gallery page at a time (thumbnails + metadata, nothing is cached locally).
+  // Pass the previous page's nextCursor (and the same presetId filter) to continue.
+  fetchImages: async (cursor?: string | null, presetId?: string | null): Promise<ImagePage> => {
     const { data: { session } } = await supabase.auth.getSession();
-    if (!session) return [];
+    if (!session) return { images: [], nextCursor: null };
+
+    localStorage.removeItem(IMAGES_KEY);
+    const params = new URLSearchParams();
+    if (cursor) params.set('cursor', cursor);
+    if (presetId) params.set('preset', presetId);
+    const query = params.toString();
+    const data = await authorizedFetch(`/api/images${query ? `?${query}` : ''}`);
+    return { images: data.images, nextCursor: data.nextCursor };
+  },
+
+  // Full record with signed full-size URLs
+  fetchImage: async (imageId: string): Promise<ImageRecord> => {
+    const data = await authorizedFetch(`/api/images/${encodeURIComponent(imageId)}`);
+    return data.image as ImageRecord;
+  },
 
-    const { data, error } = await supabase
-        .from('images')
-        .select('*')
-        .order('timestamp', { ascending: false });
+  // Every image in the same edit tree (root and all edits made from it), oldest first
+  fetchImageHistory: async (imageId: string): Promise<ImageSummary[]> => {
+    const data = await authorizedFetch(`/api/images/${encodeURIComponent(imageId)}/history`);
+    return data.images as ImageSummary[];
+  },
+
+  // --- GUEST PREVIEWS ---
+  // The stored guest token, or a new one from the server
+  getGuestToken: async (): Promise<string> => {
+    const stored = localStorage.getItem(GUEST_TOKEN_KEY);
+    if (stored) return stored;
+    await StorageService.syncGuestAllowance();
+    return localStorage.getItem(GUEST_TOKEN_KEY) || '';
+  },
 
-    if (data) {
-        const mappedImages: ImageRecord[] = data.map((img: any) => ({
-            id: img.id,
-            userId: img.user_id,
-            originalImageBase64: img.original_image_base64,
-            generatedImageBase64: img.generated_image_base64,
-            prompt: img.prompt,
-            timestamp: img.timestamp,
-            isUnlocked: img.is_unlocked,
-            isFreePreview: img.is_free_preview
-        }));
-        localStorage.setItem(IMAGES_KEY, JSON.stringify(mappedImages));
-        return mappedImages;
+  // Renews the guest token and reads today's free previews from the server
+  syncGuestAllowance: async (): Promise<User> => {
+    const response = await fetch('/api/guest/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: localStorage.getItem(GUEST_TOKEN_KEY) })
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) throw new Error(data?.error || `Request failed with status ${response.status}`);
+
+    localStorage.setItem(GUEST_TOKEN_KEY, data.token);
+    const user = { ...StorageService.getUser(), hasUsedFreeGen: data.previewsLeft === 0 };
+    localStorage.setItem(USER_KEY, JSON.stringify(user));
+    return user;
+  },
+
+  // After login/signup: moves this browser's guest previews into the account
+  claimGuestPreviews: async (): Promise<number> => {
+    const token = localStorage.getItem(GUEST_TOKEN_KEY);
+    if (!token) return 0;
+    try {
+        const data = await authorizedFetch('/api/guest/claim', { method: 'POST', body: JSON.stringify({ token }) });
+        localStorage.removeItem(GUEST_TOKEN_KEY);
+        return data.claimed;
+    } catch (err) {
+        // Kept for the next sign-in
+        console.error("Failed to claim guest previews:", err);
+        return 0;
     }
-    return [];
+  },
+
+  // Admins only: recent requests blocked by moderation, newest first
+  fetchModerationIncidents: async (): Promise<ModerationIncident[]> => {
+    const data = await authorizedFetch('/api/admin/moderation-incidents');
+    return data.incidents as ModerationIncident[];
   },
 
   signup: async (email: string, name: string): Promise<boolean> => {
@@ -134,86 +198,29 @@ export const StorageService = {
     localStorage.removeItem(IMAGES_KEY);
   },
 
+  // Persists a generation for logged-in users. The server uploads the source
+  // image, links the stored output and decides the unlock state, so the
+  // returned record (with signed URLs) replaces the local one.
+  // Guests keep the unsaved local record.
   saveImage: async (image: ImageRecord): Promise<ImageRecord> => {
     const user = StorageService.getUser();
-    
-    // If user is authenticated, save to DB first to get the real UUID
-    if (user.isAuthenticated) {
-        const { data, error } = await supabase.from('images').insert({
-            user_id: user.id,
-            // If the image already has a UUID format ID (or robust long ID), try to preserve it.
-            // This ensures the ID in local state matches what ends up in the DB.
-            ...(image.id.length > 20 ? { id: image.id } : {}),
-            original_image_base64: image.originalImageBase64,
-            generated_image_base64: image.generatedImageBase64,
-            prompt: image.prompt,
-            timestamp: image.timestamp,
-            is_unlocked: image.isUnlocked,
-            is_free_preview: image.isFreePreview
-        }).select().single();
+    if (!user.isAuthenticated) return image;
 
-        if (data) {
-            // Use the real ID from database
-            const savedImage = { ...image, id: data.id };
-            
-            // Update Local Cache with the Real ID
-            const stored = localStorage.getItem(IMAGES_KEY);
-            const allImages: ImageRecord[] = stored ? JSON.parse(stored) : [];
-            const updated = [savedImage, ...allImages];
-            localStorage.setItem(IMAGES_KEY, JSON.stringify(updated));
-            
-            return savedImage;
-        }
-    }
-    
-    // Fallback for guest or offline (uses temporary timestamp ID)
-    const stored = localStorage.getItem(IMAGES_KEY);
-    const allImages: ImageRecord[] = stored ? JSON.parse(stored) : [];
-    const updated = [image, ...allImages];
-    localStorage.setItem(IMAGES_KEY, JSON.stringify(updated));
-    return image;
+    const data = await authorizedFetch('/api/images', {
+        method: 'POST',
+        body: JSON.stringify({
+            id: image.id,
+            originalImageBase64: image.originalImageUrl,
+            generationId: image.generationId || null,
+            prompt: image.prompt,
+            timestamp: image.timestamp
+        })
+    });
+    return data.image as ImageRecord;
   },
 
-  updateImage: async (imageId: string, updates: Partial<ImageRecord>) => {
-     // 1. Cache update
-    const stored = localStorage.getItem(IMAGES_KEY);
-    let allImages: ImageRecord[] = [];
-    if (stored) {
-        allImages = JSON.parse(stored);
-        const index = allImages.findIndex(img => img.id === imageId);
-        if (index !== -1) {
-            allImages[index] = { ...allImages[index], ...updates };
-            localStorage.setItem(IMAGES_KEY, JSON.stringify(allImages));
-        }
-    }
-
-    // 2. DB Update
-    // Only attempt DB update if we are logged in and it looks like a valid UUID (length > 20)
-    // Supabase IDs are 36 chars.
-    const user = StorageService.getUser();
-    if (user.isAuthenticated && imageId.length > 20) {
-        const dbUpdates: any = {};
-        // Note: Credits are now ONLY updated via Server. Images can still be updated (unlocked) if logic permits.
-        if (updates.isUnlocked !== undefined) dbUpdates.is_unlocked = updates.isUnlocked;
-        
-        if (Object.keys(dbUpdates).length > 0) {
-            await supabase.from('images').update(dbUpdates).eq('id', imageId);
-        }
-    }
-  },
-  
   deleteImage: async (imageId: string) => {
-      // Cache
-      const stored = localStorage.getItem(IMAGES_KEY);
-      if (!stored) return;
-      const allImages: ImageRecord[] = JSON.parse(stored);
-      const filtered = allImages.filter(img => img.id !== imageId);
-      localStorage.setItem(IMAGES_KEY, JSON.stringify(filtered));
-
-      // DB
-      if (imageId.length > 20) {
-        await supabase.from('images').delete().eq('id', imageId);
-      }
+      await authorizedFetch(`/api/images/${encodeURIComponent(imageId)}`, { method: 'DELETE' });
   },
 
   // --- STRIPE / PAYMENT HELPERS ---
@@ -231,6 +238,21 @@ export const StorageService = {
       localStorage.removeItem(PENDING_TXN_KEY);
   },
 
+  // --- GENERATION JOB HELPERS ---
+  // The running job survives a page reload so the Generator can pick it back up
+  setPendingJob: (jobId: string) => {
+      localStorage.setItem(PENDING_JOB_KEY, JSON.stringify({ jobId, timestamp: Date.now() }));
+  },
+
+  getPendingJob: (): { jobId: string; timestamp: number } | null => {
+      const stored = localStorage.getItem(PENDING_JOB_KEY);
+      return stored ? JSON.parse(stored) : null;
+  },
+
+  clearPendingJob: () => {
+      localStorage.removeItem(PENDING_JOB_KEY);
+  },
+
   // NOTE: finalizePurchase has been removed. 
   // Payment verification is now handled by the backend /api/verify-checkout endpoint.
   
@@ -246,13 +268,6 @@ export const StorageService = {
   processPayment: async () => ({ id: '1', date: Date.now(), amount: 0, description: '', status: 'SUCCESS', paymentMethod: '' }),
   cancelSubscription: () => StorageService.getUser(),
   
-  recordFreeUsage: () => {
-      const user = StorageService.getUser();
-      const updated = { ...user, hasUsedFreeGen: true };
-      localStorage.setItem(USER_KEY, JSON.stringify(updated));
-      return updated;
-  },
-
   logEvent: (event: any) => { console.log('Event Logged:', event); },
   getAnalytics: () => [],
   createTicket: (ticket: Partial<SupportTicket>) => ({ id: '1', timestamp: Date.now(), status: 'NEW', adminReplies: [], message: '', email: '', firstName: '', lastName: '', userId: '', tier: 'GUEST', ...ticket } as SupportTicket),
@@ -1 +1,799 @@
-��'i�^QB{^�Ȩ�$D1]1H�� SNLE�I4
\ No newline at end of file
+-- =====================================================================
+-- UPSCALE IMAGERY AI - SUPABASE SCHEMA
+-- Run in the Supabase SQL editor. Statements are idempotent so the file
+-- can be re-applied after each change.
+-- =====================================================================
+
+-- ---------------------------------------------------------------------
+-- CREDIT LEDGER
+-- Append-only record of every credit movement. profiles.credits is a
+-- cache of SUM(delta) maintained by trigger; never write it directly.
+-- ---------------------------------------------------------------------
+create table if not exists public.credit_ledger (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  entry_type text not null check (entry_type in ('grant', 'debit', 'refund')),
+  delta integer not null,
+  reason text not null,
+  reference_id text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists credit_ledger_user_idx on public.credit_ledger (user_id, created_at desc);
+
+-- Credits held for in-flight work. A hold either becomes a ledger debit
+-- (commit) or is dropped (release). Expired holds no longer count.
+create table if not exists public.credit_reservations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  amount integer not null check (amount > 0),
+  status text not null default 'held' check (status in ('held', 'committed', 'released')),
+  reason text not null,
+  reference_id text,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '15 minutes',
+  settled_at timestamptz
+);
+
+create index if not exists credit_reservations_held_idx on public.credit_reservations (user_id) where status = 'held';
+
+alter table public.credit_ledger enable row level security;
+alter table public.credit_reservations enable row level security;
+
+drop policy if exists "Users read own ledger" on public.credit_ledger;
+create policy "Users read own ledger" on public.credit_ledger
+  for select using (auth.uid() = user_id);
+
+-- Balance derived from the ledger
+create or replace view public.credit_balances as
+  select user_id, coalesce(sum(delta), 0)::integer as balance
+  from public.credit_ledger
+  group by user_id;
+
+create or replace function public.sync_profile_credits()
+returns trigger language plpgsql security definer as $$
+begin
+  update public.profiles
+     set credits = (select coalesce(sum(delta), 0) from public.credit_ledger where user_id = new.user_id)
+   where id = new.user_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists credit_ledger_sync_profile on public.credit_ledger;
+create trigger credit_ledger_sync_profile
+  after insert on public.credit_ledger
+  for each row execute function public.sync_profile_credits();
+
+-- Reserve p_amount credits. Locks the profile row so concurrent reservations
+-- for the same user are serialised. Returns null when the available balance
+-- (ledger balance minus live holds) is insufficient.
+create or replace function public.reserve_credits(
+  p_user_id uuid, p_amount integer, p_reason text, p_reference_id text default null
+) returns uuid language plpgsql security definer as $$
+declare
+  v_balance integer;
+  v_held integer;
+  v_id uuid;
+begin
+  perform 1 from public.profiles where id = p_user_id for update;
+  if not found then
+    return null;
+  end if;
+
+  select coalesce(sum(delta), 0) into v_balance from public.credit_ledger where user_id = p_user_id;
+  select coalesce(sum(amount), 0) into v_held from public.credit_reservations
+   where user_id = p_user_id and status = 'held' and expires_at > now();
+
+  if v_balance - v_held < p_amount then
+    return null;
+  end if;
+
+  insert into public.credit_reservations (user_id, amount, reason, reference_id)
+  values (p_user_id, p_amount, p_reason, p_reference_id)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+-- Turn a hold into a ledger debit. Returns false if the hold was already
+-- settled, or if it expired and the balance no longer covers it (the hold
+-- is then released): its credits may have been reserved again meanwhile.
+create or replace function public.commit_credit_reservation(p_reservation_id uuid)
+returns boolean language plpgsql security definer as $$
+declare
+  v_res public.credit_reservations;
+  v_balance integer;
+  v_held integer;
+begin
+  select * into v_res from public.credit_reservations
+   where id = p_reservation_id and status = 'held'
+  for update;
+
+  if not found then
+    return false;
+  end if;
+
+  if v_res.expires_at <= now() then
+    perform 1 from public.profiles where id = v_res.user_id for update;
+    select coalesce(sum(delta), 0) into v_balance from public.credit_ledger where user_id = v_res.user_id;
+    select coalesce(sum(amount), 0) into v_held from public.credit_reservations
+     where user_id = v_res.user_id and status = 'held' and expires_at > now();
+
+    if v_balance - v_held < v_res.amount then
+      update public.credit_reservations set status = 'released', settled_at = now() where id = v_res.id;
+      return false;
+    end if;
+  end if;
+
+  update public.credit_reservations
+     set status = 'committed', settled_at = now()
+   where id = v_res.id;
+
+  insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+  values (v_res.user_id, 'debit', -v_res.amount, v_res.reason, coalesce(v_res.reference_id, v_res.id::text));
+
+  return true;
+end;
+$$;
+
+-- Keeps holds alive for p_seconds more (a queued job's holds can outlast
+-- their 15 minutes). A hold that already expired is only renewed while the
+-- balance still covers it; otherwise it is released. Returns false when
+-- any hold could not be kept.
+create or replace function public.renew_credit_reservations(p_reservation_ids uuid[], p_seconds integer)
+returns boolean language plpgsql security definer as $$
+declare
+  v_res public.credit_reservations;
+  v_balance integer;
+  v_held integer;
+  v_kept boolean := true;
+begin
+  for v_res in
+    select * from public.credit_reservations
+     where id = any(p_reservation_ids) and status = 'held'
+     order by created_at
+  loop
+    perform 1 from public.profiles where id = v_res.user_id for update;
+
+    if v_res.expires_at <= now() then
+      select coalesce(sum(delta), 0) into v_balance from public.credit_ledger where user_id = v_res.user_id;
+      select coalesce(sum(amount), 0) into v_held from public.credit_reservations
+       where user_id = v_res.user_id and status = 'held' and expires_at > now();
+
+      if v_balance - v_held < v_res.amount then
+        update public.credit_reservations set status = 'released', settled_at = now() where id = v_res.id;
+        v_kept := false;
+        continue;
+      end if;
+    end if;
+
+    update public.credit_reservations
+       set expires_at = greatest(expires_at, now() + make_interval(secs => p_seconds))
+     where id = v_res.id;
+  end loop;
+
+  return v_kept;
+end;
+$$;
+
+-- Drop a hold without charging. Returns false if the hold was already settled.
+create or replace function public.release_credit_reservation(p_reservation_id uuid)
+returns boolean language plpgsql security definer as $$
+begin
+  update public.credit_reservations
+     set status = 'released', settled_at = now()
+   where id = p_reservation_id and status = 'held';
+  return found;
+end;
+$$;
+
+-- Append a positive ledger entry (grant or refund)
+create or replace function public.add_credits(
+  p_user_id uuid, p_amount integer, p_entry_type text, p_reason text, p_reference_id text default null
+) returns uuid language plpgsql security definer as $$
+declare
+  v_id uuid;
+begin
+  if p_entry_type not in ('grant', 'refund') then
+    raise exception 'add_credits only accepts grant or refund entries';
+  end if;
+
+  insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+  values (p_user_id, p_entry_type, p_amount, p_reason, p_reference_id)
+  returning id into v_id;
+
+  return v_id;
+end;
+$$;
+
+revoke execute on function public.reserve_credits(uuid, integer, text, text) from public, anon, authenticated;
+revoke execute on function public.commit_credit_reservation(uuid) from public, anon, authenticated;
+revoke execute on function public.release_credit_reservation(uuid) from public, anon, authenticated;
+revoke execute on function public.renew_credit_reservations(uuid[], integer) from public, anon, authenticated;
+revoke execute on function public.add_credits(uuid, integer, text, text, text) from public, anon, authenticated;
+
+-- One-off migration: carry existing balances into the ledger
+insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+select p.id, 'grant', p.credits, 'opening_balance', 'migration:credit_ledger'
+  from public.profiles p
+ where p.credits > 0
+   and not exists (
+     select 1 from public.credit_ledger l
+      where l.user_id = p.id and l.reference_id = 'migration:credit_ledger'
+   );
+
+-- ---------------------------------------------------------------------
+-- PROCESSED CHECKOUT SESSIONS
+-- One row per fulfilled Stripe Checkout Session. The primary key makes
+-- fulfilment exactly-once no matter how often verification is replayed.
+-- ---------------------------------------------------------------------
+create table if not exists public.checkout_sessions (
+  session_id text primary key,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  credits_granted integer not null default 0,
+  client_reference_id text,
+  processed_at timestamptz not null default now()
+);
+
+alter table public.checkout_sessions enable row level security;
+
+-- Records the session and grants its credits in one transaction. On a
+-- repeat call nothing is granted and the original row is returned with
+-- newly_processed = false.
+create or replace function public.fulfill_checkout_session(
+  p_session_id text, p_user_id uuid, p_credits integer, p_client_reference_id text default null
+) returns jsonb language plpgsql security definer as $$
+declare
+  v_row public.checkout_sessions;
+  v_new boolean := false;
+begin
+  insert into public.checkout_sessions (session_id, user_id, credits_granted, client_reference_id)
+  values (p_session_id, p_user_id, p_credits, p_client_reference_id)
+  on conflict (session_id) do nothing
+  returning * into v_row;
+
+  if found then
+    v_new := true;
+    if p_credits > 0 then
+      insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+      values (p_user_id, 'grant', p_credits, 'purchase', p_session_id);
+    end if;
+  else
+    select * into v_row from public.checkout_sessions where session_id = p_session_id;
+  end if;
+
+  return to_jsonb(v_row) || jsonb_build_object('newly_processed', v_new);
+end;
+$$;
+
+revoke execute on function public.fulfill_checkout_session(text, uuid, integer, text) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------
+-- STRIPE BILLING STATE
+-- Links profiles to Stripe so webhooks can find the account for a
+-- customer, and makes per-invoice grants exactly-once.
+-- ---------------------------------------------------------------------
+alter table public.profiles add column if not exists stripe_customer_id text;
+alter table public.profiles add column if not exists stripe_subscription_id text;
+alter table public.profiles add column if not exists subscription_status text;
+
+create unique index if not exists profiles_stripe_customer_idx
+  on public.profiles (stripe_customer_id) where stripe_customer_id is not null;
+
+create unique index if not exists credit_ledger_grant_reference_idx
+  on public.credit_ledger (user_id, reason, reference_id)
+  where entry_type = 'grant' and reference_id is not null;
+
+-- Grant unless a grant with the same (user, reason, reference) exists.
+-- Returns true when credits were added.
+create or replace function public.grant_credits_once(
+  p_user_id uuid, p_amount integer, p_reason text, p_reference_id text
+) returns boolean language plpgsql security definer as $$
+begin
+  insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+  values (p_user_id, 'grant', p_amount, p_reason, p_reference_id)
+  on conflict (user_id, reason, reference_id) where entry_type = 'grant' and reference_id is not null
+  do nothing;
+  return found;
+end;
+$$;
+
+revoke execute on function public.grant_credits_once(uuid, integer, text, text) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------
+-- IMAGE UNLOCKS
+-- is_unlocked may only change server-side: through purchase fulfilment
+-- or by spending a credit via unlock_image_with_credit().
+-- ---------------------------------------------------------------------
+create or replace function public.guard_image_unlock()
+returns trigger language plpgsql as $$
+begin
+  if new.is_unlocked is distinct from old.is_unlocked
+     and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'images.is_unlocked can only be changed by the server';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists images_guard_unlock on public.images;
+create trigger images_guard_unlock
+  before update on public.images
+  for each row execute function public.guard_image_unlock();
+
+-- Spends one credit to unlock an image the user owns, atomically.
+-- Returns 'unlocked', 'already_unlocked', 'not_found' or 'insufficient_credits'.
+create or replace function public.unlock_image_with_credit(p_user_id uuid, p_image_id uuid)
+returns text language plpgsql security definer as $$
+declare
+  v_unlocked boolean;
+  v_balance integer;
+  v_held integer;
+begin
+  perform 1 from public.profiles where id = p_user_id for update;
+
+  select is_unlocked into v_unlocked from public.images
+   where id = p_image_id and user_id = p_user_id
+   for update;
+
+  if not found then
+    return 'not_found';
+  end if;
+  if v_unlocked then
+    return 'already_unlocked';
+  end if;
+
+  select coalesce(sum(delta), 0) into v_balance from public.credit_ledger where user_id = p_user_id;
+  select coalesce(sum(amount), 0) into v_held from public.credit_reservations
+   where user_id = p_user_id and status = 'held' and expires_at > now();
+
+  if v_balance - v_held < 1 then
+    return 'insufficient_credits';
+  end if;
+
+  insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+  values (p_user_id, 'debit', -1, 'image_unlock', p_image_id::text);
+
+  update public.images set is_unlocked = true where id = p_image_id;
+
+  return 'unlocked';
+end;
+$$;
+
+revoke execute on function public.unlock_image_with_credit(uuid, uuid) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------
+-- GENERATIONS
+-- Server-side record of every provider output. The clean image lives in
+-- the object store under output_key; locked generations only ever reach
+-- the browser as a watermarked preview.
+-- ---------------------------------------------------------------------
+create table if not exists public.generations (
+  id uuid primary key,
+  user_id uuid references public.profiles(id) on delete cascade,
+  output_key text not null,
+  mime_type text not null,
+  is_unlocked boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists generations_user_idx on public.generations (user_id);
+
+alter table public.generations enable row level security;
+
+alter table public.images add column if not exists generation_id uuid references public.generations(id) on delete set null;
+create index if not exists images_generation_idx on public.images (generation_id);
+
+-- ---------------------------------------------------------------------
+-- IMAGE OBJECTS
+-- Image bytes live in Storage; the table only keeps object keys and file
+-- facts. Records are created by the server (POST /api/images), which
+-- hands the browser short-lived signed URLs.
+-- Legacy base64 columns are emptied by scripts/migrate-image-bytes.js and
+-- can be dropped once it has run.
+-- ---------------------------------------------------------------------
+alter table public.generations add column if not exists preview_key text;
+
+alter table public.images add column if not exists original_key text;
+alter table public.images add column if not exists original_mime_type text;
+alter table public.images add column if not exists original_width integer;
+alter table public.images add column if not exists original_height integer;
+alter table public.images add column if not exists original_size_bytes integer;
+alter table public.images add column if not exists generated_key text;
+alter table public.images add column if not exists generated_mime_type text;
+alter table public.images add column if not exists generated_width integer;
+alter table public.images add column if not exists generated_height integer;
+alter table public.images add column if not exists generated_size_bytes integer;
+-- Watermarked copy shown while the image is locked
+alter table public.images add column if not exists preview_key text;
+
+alter table public.images alter column original_image_base64 drop not null;
+alter table public.images alter column generated_image_base64 drop not null;
+
+alter table public.generations add column if not exists width integer;
+alter table public.generations add column if not exists height integer;
+alter table public.generations add column if not exists size_bytes integer;
+
+-- Only the server creates or changes image records: it decides
+-- is_unlocked, and the object keys and generation_id decide what the
+-- signed URLs and downloads hand out (clean output keys are predictable)
+revoke insert, update on public.images from anon, authenticated;
+
+-- ---------------------------------------------------------------------
+-- GALLERY THUMBNAILS & PAGINATION
+-- Thumbnails are written at save time; GET /api/images pages through
+-- (timestamp, id) newest first.
+-- ---------------------------------------------------------------------
+alter table public.generations add column if not exists thumbnail_key text;
+alter table public.images add column if not exists thumbnail_key text;
+
+create index if not exists images_user_timeline_idx on public.images (user_id, timestamp desc, id desc);
+
+-- ---------------------------------------------------------------------
+-- VARIATION GROUPS
+-- A request for several variations stores one generation (and one image
+-- record) per candidate, linked by a shared group id.
+-- ---------------------------------------------------------------------
+alter table public.generations add column if not exists group_id uuid;
+alter table public.images add column if not exists group_id uuid;
+
+create index if not exists generations_group_idx on public.generations (group_id);
+create index if not exists images_group_idx on public.images (group_id);
+
+-- ---------------------------------------------------------------------
+-- GENERATION JOBS
+-- /api/generate validates, reserves credits and queues a job; a worker
+-- claims it, runs the provider and settles the reservations. Clients poll
+-- /api/jobs/:id. Server-only: no policies are granted to clients.
+-- ---------------------------------------------------------------------
+create table if not exists public.generation_jobs (
+  id uuid primary key,
+  user_id uuid references auth.users(id) on delete cascade,
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  request jsonb not null,
+  reservation_ids uuid[] not null default '{}',
+  progress jsonb,
+  result jsonb,
+  error jsonb,
+  attempts integer not null default 0,
+  locked_until timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create index if not exists generation_jobs_pending_idx on public.generation_jobs (created_at)
+  where status in ('queued', 'running');
+
+-- Plans with Faster Processing are claimed first (plans.json queuePriority;
+-- guest previews are 0). started_at feeds the wait estimate shown to clients.
+alter table public.generation_jobs add column if not exists priority integer not null default 0;
+alter table public.generation_jobs add column if not exists started_at timestamptz;
+
+create index if not exists generation_jobs_queue_idx on public.generation_jobs (priority desc, created_at)
+  where status = 'queued';
+
+alter table public.generation_jobs enable row level security;
+
+-- A queued job's rank: its priority, plus one for every p_aging_seconds it
+-- has waited, so lower priorities are delayed but never starved
+create or replace function public.generation_job_rank(p_priority integer, p_created_at timestamptz, p_aging_seconds integer)
+returns integer language sql stable as $$
+  select p_priority + floor(extract(epoch from now() - p_created_at) / greatest(p_aging_seconds, 1))::integer;
+$$;
+
+-- Claims the highest-ranked, oldest queued job, or a running one whose
+-- worker's lease ran out, and leases it to the caller for p_lease_seconds.
+-- Claims nothing while p_max_running jobs hold a live lease (null: no cap);
+-- claims are serialized so concurrent workers cannot overshoot the cap.
+drop function if exists public.claim_generation_job(integer);
+drop function if exists public.claim_generation_job(integer, integer);
+
+create or replace function public.claim_generation_job(
+  p_lease_seconds integer, p_max_running integer default null, p_aging_seconds integer default 120
+) returns setof public.generation_jobs language plpgsql security definer as $$
+declare
+  v_id uuid;
+begin
+  perform pg_advisory_xact_lock(hashtext('claim_generation_job'));
+
+  if p_max_running is not null and (
+    select count(*) from public.generation_jobs
+    where status = 'running' and locked_until >= now()
+  ) >= p_max_running then
+    return;
+  end if;
+
+  select id into v_id from public.generation_jobs
+  where status = 'queued' or (status = 'running' and locked_until < now())
+  order by public.generation_job_rank(priority, created_at, p_aging_seconds) desc, created_at
+  limit 1
+  for update skip locked;
+
+  if v_id is null then
+    return;
+  end if;
+
+  return query
+  update public.generation_jobs
+  set status = 'running',
+      attempts = attempts + 1,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      started_at = now(),
+      updated_at = now()
+  where id = v_id
+  returning *;
+end;
+$$;
+
+-- 1 + the queued jobs claim_generation_job would take before p_job_id
+create or replace function public.generation_queue_position(p_job_id uuid, p_aging_seconds integer default 120)
+returns integer language sql stable security definer as $$
+  with target as (
+    select public.generation_job_rank(priority, created_at, p_aging_seconds) as rank, created_at
+    from public.generation_jobs where id = p_job_id
+  )
+  select count(*)::integer + 1
+  from public.generation_jobs j, target t
+  where j.status = 'queued'
+    and j.id <> p_job_id
+    and (public.generation_job_rank(j.priority, j.created_at, p_aging_seconds) > t.rank
+         or (public.generation_job_rank(j.priority, j.created_at, p_aging_seconds) = t.rank and j.created_at < t.created_at));
+$$;
+
+revoke execute on function public.claim_generation_job(integer, integer, integer) from public, anon, authenticated;
+revoke execute on function public.generation_queue_position(uuid, integer) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------
+-- EDIT HISTORY
+-- An image made by editing another image's output points at it through
+-- parent_image_id. Deleting a parent turns its children into new roots.
+-- ---------------------------------------------------------------------
+alter table public.images add column if not exists parent_image_id uuid references public.images(id) on delete set null;
+
+create index if not exists images_parent_idx on public.images (parent_image_id);
+
+-- Every image in the same edit tree as p_image_id (its root and all of the
+-- root's descendants), oldest first. Only the user's own images are followed.
+create or replace function public.image_edit_tree(p_user_id uuid, p_image_id uuid)
+returns setof public.images language sql stable security definer as $$
+  with recursive ancestors as (
+    select id, parent_image_id from public.images
+    where id = p_image_id and user_id = p_user_id
+    union all
+    select i.id, i.parent_image_id from public.images i
+    join ancestors a on i.id = a.parent_image_id
+    where i.user_id = p_user_id
+  ),
+  root as (
+    select a.id from ancestors a
+    where not exists (select 1 from ancestors b where b.id = a.parent_image_id)
+  ),
+  tree as (
+    select i.* from public.images i join root r on i.id = r.id
+    union all
+    select i.* from public.images i
+    join tree t on i.parent_image_id = t.id
+    where i.user_id = p_user_id
+  )
+  select * from tree order by timestamp;
+$$;
+
+revoke execute on function public.image_edit_tree(uuid, uuid) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------
+-- STYLE PRESETS
+-- Images made from a style preset (api/presets.js) record its id so the
+-- gallery can be filtered by preset.
+-- ---------------------------------------------------------------------
+alter table public.images add column if not exists preset_id text;
+
+create index if not exists images_user_preset_timeline_idx on public.images (user_id, preset_id, timestamp desc, id desc)
+  where preset_id is not null;
+
+-- ---------------------------------------------------------------------
+-- MODERATION INCIDENTS
+-- One row per request blocked by the prompt screen (PROMPT_BLOCKED) or the
+-- provider's safety filters (SAFETY_BLOCKED); see api/moderation.js.
+-- Server-only: admins read them through /api/admin/moderation-incidents.
+-- ---------------------------------------------------------------------
+create table if not exists public.moderation_incidents (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete set null,
+  job_id uuid,
+  code text not null check (code in ('PROMPT_BLOCKED', 'SAFETY_BLOCKED')),
+  category text not null,
+  reason text,
+  prompt text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists moderation_incidents_created_idx on public.moderation_incidents (created_at desc);
+
+alter table public.moderation_incidents enable row level security;
+
+-- ---------------------------------------------------------------------
+-- USAGE COUNTERS
+-- Fixed-window counters (api/counterStore), e.g. guest previews per day.
+-- Rows of past windows are never read again and can be deleted at will.
+-- ---------------------------------------------------------------------
+create table if not exists public.usage_counters (
+  key text not null,
+  window_start timestamptz not null,
+  count integer not null default 0,
+  primary key (key, window_start)
+);
+
+alter table public.usage_counters enable row level security;
+
+-- Counts one use of p_key's window unless it already holds p_limit.
+-- Returns the new count, or null when the window is full.
+create or replace function public.consume_usage_counter(p_key text, p_window_start timestamptz, p_limit integer)
+returns integer language plpgsql security definer as $$
+declare
+  v_count integer;
+begin
+  insert into public.usage_counters (key, window_start, count)
+  values (p_key, p_window_start, 1)
+  on conflict (key, window_start) do update
+    set count = public.usage_counters.count + 1
+    where public.usage_counters.count < p_limit
+  returning count into v_count;
+
+  return v_count;
+end;
+$$;
+
+-- Gives one use back (the work it paid for was not delivered)
+create or replace function public.release_usage_counter(p_key text, p_window_start timestamptz)
+returns void language sql security definer as $$
+  update public.usage_counters
+  set count = greatest(count - 1, 0)
+  where key = p_key and window_start = p_window_start;
+$$;
+
+revoke execute on function public.consume_usage_counter(text, timestamptz, integer) from public, anon, authenticated;
+revoke execute on function public.release_usage_counter(text, timestamptz) from public, anon, authenticated;
+
+-- ---------------------------------------------------------------------
+-- GUEST PREVIEWS
+-- Previews made with a guest token, kept (with a copy of the source image)
+-- until the guest signs up and POST /api/guest/claim moves them into the
+-- account. Unclaimed rows older than the token lifetime (30 days) can be
+-- deleted along with their guest-sources/ objects.
+-- ---------------------------------------------------------------------
+create table if not exists public.guest_previews (
+  generation_id uuid primary key references public.generations(id) on delete cascade,
+  guest_id uuid not null,
+  source_key text not null,
+  source_mime_type text not null,
+  source_width integer,
+  source_height integer,
+  prompt text,
+  preset_id text,
+  created_at timestamptz not null default now(),
+  claimed_by uuid references auth.users(id) on delete set null,
+  claimed_at timestamptz
+);
+
+create index if not exists guest_previews_unclaimed_idx on public.guest_previews (guest_id, created_at)
+  where claimed_by is null;
+
+alter table public.guest_previews enable row level security;
+
+-- ---------------------------------------------------------------------
+-- CREDIT CYCLES
+-- One row per subscription billing period (api/creditCycles.js). Each new
+-- period grants the plan's allowance; whatever is left of the previous
+-- allowance rolls over up to the plan's rolloverCap and the rest expires
+-- as a ledger 'expiry' entry. Allowances are assumed to be spent first, so
+-- purchased and refunded credits never expire. Subscribers from before
+-- this table are adopted by their next renewal.
+-- ---------------------------------------------------------------------
+alter table public.credit_ledger drop constraint if exists credit_ledger_entry_type_check;
+alter table public.credit_ledger add constraint credit_ledger_entry_type_check
+  check (entry_type in ('grant', 'debit', 'refund', 'expiry'));
+
+create table if not exists public.credit_cycles (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  plan text not null,
+  period_start timestamptz not null,
+  period_end timestamptz not null,
+  source text not null,
+  reference_id text,
+  granted integer not null default 0,
+  rolled_over integer not null default 0,
+  expired integer not null default 0,
+  -- granted + rolled_over: what the next period treats as unused allowance
+  allowance integer not null default 0,
+  created_at timestamptz not null default now(),
+  unique (user_id, period_start)
+);
+
+-- 'plan_change': an upgrade or downgrade billed mid-period (its invoice.paid)
+alter table public.credit_cycles drop constraint if exists credit_cycles_source_check;
+alter table public.credit_cycles add constraint credit_cycles_source_check
+  check (source in ('checkout', 'renewal', 'plan_change', 'schedule'));
+
+alter table public.credit_cycles enable row level security;
+
+drop policy if exists "Users read own credit cycles" on public.credit_cycles;
+create policy "Users read own credit cycles" on public.credit_cycles
+  for select using (auth.uid() = user_id);
+
+-- End of the open period (or, for one the scheduled run skipped, when to
+-- look again); the scheduled run checks profiles past it
+alter table public.profiles add column if not exists credit_period_end timestamptz;
+
+create index if not exists profiles_credit_period_due_idx on public.profiles (credit_period_end)
+  where stripe_subscription_id is not null;
+
+-- Starts the period beginning at p_period_start. Periods only move forward:
+-- if it (or a later one) was already started, nothing changes and that
+-- cycle is returned with newly_processed = false. With p_grant = false the
+-- allowance is only recorded (the checkout already granted it). Returns
+-- null for an unknown user.
+create or replace function public.start_credit_cycle(
+  p_user_id uuid, p_plan text, p_period_start timestamptz, p_period_end timestamptz,
+  p_allowance integer, p_rollover_cap integer, p_source text, p_reference_id text,
+  p_grant boolean default true
+) returns jsonb language plpgsql security definer as $$
+declare
+  v_last public.credit_cycles;
+  v_row public.credit_cycles;
+  v_balance integer;
+  v_held integer;
+  v_unused integer;
+  v_rolled integer;
+  v_expired integer;
+begin
+  perform 1 from public.profiles where id = p_user_id for update;
+  if not found then
+    return null;
+  end if;
+
+  select * into v_last from public.credit_cycles
+   where user_id = p_user_id
+   order by period_start desc
+   limit 1;
+
+  if v_last.id is not null and v_last.period_start >= p_period_start then
+    return to_jsonb(v_last) || jsonb_build_object('newly_processed', false);
+  end if;
+
+  -- Live holds are not touched: they are still being spent
+  select coalesce(sum(delta), 0) into v_balance from public.credit_ledger where user_id = p_user_id;
+  select coalesce(sum(amount), 0) into v_held from public.credit_reservations
+   where user_id = p_user_id and status = 'held' and expires_at > now();
+
+  v_unused := greatest(0, least(v_balance - v_held, coalesce(v_last.allowance, 0)));
+  v_rolled := least(v_unused, greatest(p_rollover_cap, 0));
+  v_expired := v_unused - v_rolled;
+
+  if v_expired > 0 then
+    insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+    values (p_user_id, 'expiry', -v_expired, 'allowance_expired', p_reference_id);
+  end if;
+
+  -- An invoice granted before cycles existed is not granted twice
+  if p_grant and p_allowance > 0 then
+    insert into public.credit_ledger (user_id, entry_type, delta, reason, reference_id)
+    values (p_user_id, 'grant', p_allowance, 'subscription_renewal', p_reference_id)
+    on conflict (user_id, reason, reference_id) where entry_type = 'grant' and reference_id is not null
+    do nothing;
+  end if;
+
+  insert into public.credit_cycles (user_id, plan, period_start, period_end, source, reference_id, granted, rolled_over, expired, allowance)
+  values (p_user_id, p_plan, p_period_start, p_period_end, p_source, p_reference_id, p_allowance, v_rolled, v_expired, p_allowance + v_rolled)
+  returning * into v_row;
+
+  update public.profiles set credit_period_end = p_period_end where id = p_user_id;
+
+  return to_jsonb(v_row) || jsonb_build_object('newly_processed', true);
+end;
+$$;
+
+revoke execute on function public.start_credit_cycle(uuid, text, timestamptz, timestamptz, integer, integer, text, text, boolean) from public, anon, authenticated;
@@ -0,0 +1,93 @@
+// Guest tokens and the daily free preview allowance (api/guests.js)
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createGuestAccess } = require('../api/guests.js');
+const { createMemoryCounterStore } = require('../api/counterStore/memory.js');
+
+const GUEST = '11111111-1111-4111-8111-111111111111';
+const OTHER_GUEST = '22222222-2222-4222-8222-222222222222';
+
+const createAccess = (env = {}) => createGuestAccess({
+  counterStore: createMemoryCounterStore(),
+  env: { GUEST_TOKEN_SECRET: 'test-secret', GUEST_DAILY_PREVIEWS: '1', GUEST_IP_DAILY_PREVIEWS: '2', ...env }
+});
+
+test('a token it issued verifies to the same guest', () => {
+  const access = createAccess();
+  assert.equal(access.verifyToken(access.issueToken(GUEST)), GUEST);
+});
+
+test('rejects forged, tampered and foreign tokens', () => {
+  const access = createAccess();
+  const token = access.issueToken(GUEST);
+  const [version, , expiry, signature] = token.split('.');
+
+  assert.equal(access.verifyToken(`${version}.${OTHER_GUEST}.${expiry}.${signature}`), null);
+  assert.equal(access.verifyToken(`${version}.${GUEST}.${Number(expiry) + 1}.${signature}`), null);
+  assert.equal(access.verifyToken(createAccess({ GUEST_TOKEN_SECRET: 'other-secret' }).issueToken(GUEST)), null);
+  assert.equal(access.verifyToken('not-a-token'), null);
+  assert.equal(access.verifyToken(undefined), null);
+});
+
+test('rejects an expired token', (t) => {
+  const access = createAccess();
+  const token = access.issueToken(GUEST);
+  t.mock.method(Date, 'now', () => Date.parse('2100-01-01T00:00:00Z'));
+  assert.equal(access.verifyToken(token), null);
+});
+
+test('a guest gets its daily previews, then GUEST_QUOTA_EXCEEDED', async () => {
+  const access = createAccess();
+
+  const first = await access.consumePreview(GUEST, '203.0.113.7');
+  assert.ok(first.quota);
+  assert.equal(await access.remainingPreviews(GUEST, '203.0.113.7'), 0);
+
+  const second = await access.consumePreview(GUEST, '203.0.113.7');
+  assert.equal(second.status, 429);
+  assert.equal(second.code, 'GUEST_QUOTA_EXCEEDED');
+  assert.ok(second.resetsAt);
+});
+
+test('a new token does not reset the allowance of the same address', async () => {
+  const access = createAccess();
+  const ip = '203.0.113.7';
+
+  assert.ok((await access.consumePreview(GUEST, ip)).quota);
+  assert.ok((await access.consumePreview(OTHER_GUEST, ip)).quota);
+  const third = await access.consumePreview('33333333-3333-4333-8333-333333333333', ip);
+  assert.equal(third.code, 'GUEST_QUOTA_EXCEEDED');
+});
+
+test('an IPv6 /64 counts as one address', async () => {
+  const access = createAccess({ GUEST_DAILY_PREVIEWS: '5', GUEST_IP_DAILY_PREVIEWS: '1' });
+
+  assert.ok((await access.consumePreview(GUEST, '2001:db8:1:2::a')).quota);
+  assert.equal((await access.consumePreview(GUEST, '2001:db8:1:2::b')).code, 'GUEST_QUOTA_EXCEEDED');
+  assert.ok((await access.consumePreview(GUEST, '2001:db8:1:3::a')).quota);
+});
+
+test('a released preview can be used again', async () => {
+  const access = createAccess();
+
+  const { quota } = await access.consumePreview(GUEST, '203.0.113.7');
+  await access.releasePreview(quota);
+  assert.equal(await access.remainingPreviews(GUEST, '203.0.113.7'), 1);
+  assert.ok((await access.consumePreview(GUEST, '203.0.113.7')).quota);
+});
+
+test('a refused preview leaves the other allowance untouched', async () => {
+  const access = createAccess({ GUEST_DAILY_PREVIEWS: '2', GUEST_IP_DAILY_PREVIEWS: '1' });
+
+  assert.ok((await access.consumePreview(GUEST, '203.0.113.7')).quota);
+  assert.equal((await access.consumePreview(GUEST, '203.0.113.7')).code, 'GUEST_QUOTA_EXCEEDED');
+  // The guest's own counter was given back when the address refused
+  assert.equal(await access.remainingPreviews(GUEST, '198.51.100.1'), 1);
+});
+
+test('is disabled without GUEST_TOKEN_SECRET in production', (t) => {
+  t.mock.method(console, 'error', () => {});
+  const access = createAccess({ GUEST_TOKEN_SECRET: '', NODE_ENV: 'production' });
+  assert.equal(access.enabled, false);
+  assert.equal(access.verifyToken(createAccess().issueToken(GUEST)), null);
+});
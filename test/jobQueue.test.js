@@ -0,0 +1,87 @@
+// Claim order and concurrency of the in-memory job store, which mirrors
+// claim_generation_job in supabase_setup.sql
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { createMemoryJobStore } = require('../api/jobStore/memory.js');
+const { getAgingSeconds, rankOf } = require('../api/jobStore/queueOrder.js');
+
+const LEASE_SECONDS = 300;
+
+const secondsAgo = (seconds) => new Date(Date.now() - seconds * 1000).toISOString();
+
+const createStore = async (jobs) => {
+  const store = createMemoryJobStore({ JOB_PRIORITY_AGING_SECONDS: '60' });
+  for (const { ageSeconds = 0, ...job } of jobs) {
+    await store.create({ status: 'queued', ...job });
+    await store.update(job.id, { createdAt: secondsAgo(ageSeconds) });
+  }
+  return store;
+};
+
+test('claims higher priority first, then oldest first', async () => {
+  const store = await createStore([
+    { id: 'guest', priority: 0, ageSeconds: 30 },
+    { id: 'pro-new', priority: 2, ageSeconds: 1 },
+    { id: 'pro-old', priority: 2, ageSeconds: 20 }
+  ]);
+
+  const order = [];
+  for (let job; (job = await store.claimNext(LEASE_SECONDS)); ) order.push(job.id);
+  assert.deepEqual(order, ['pro-old', 'pro-new', 'guest']);
+});
+
+test('a long-waiting job ages past newer higher-priority work', async () => {
+  const store = await createStore([
+    { id: 'pro', priority: 2, ageSeconds: 5 },
+    { id: 'guest', priority: 0, ageSeconds: 200 }
+  ]);
+
+  assert.equal((await store.claimNext(LEASE_SECONDS)).id, 'guest');
+});
+
+test('reports queue positions in claim order', async () => {
+  const store = await createStore([
+    { id: 'guest', priority: 0, ageSeconds: 10 },
+    { id: 'pro', priority: 2, ageSeconds: 1 }
+  ]);
+
+  assert.equal(await store.queuePosition(await store.get('pro')), 1);
+  assert.equal(await store.queuePosition(await store.get('guest')), 2);
+});
+
+test('stops claiming once maxRunning jobs hold a lease', async () => {
+  const store = await createStore([{ id: 'a', priority: 0 }, { id: 'b', priority: 0 }, { id: 'c', priority: 0 }]);
+
+  assert.ok(await store.claimNext(LEASE_SECONDS, 2));
+  assert.ok(await store.claimNext(LEASE_SECONDS, 2));
+  assert.equal(await store.claimNext(LEASE_SECONDS, 2), null);
+
+  await store.update('a', { status: 'succeeded' });
+  assert.equal((await store.claimNext(LEASE_SECONDS, 2)).id, 'c');
+});
+
+test('reclaims a running job whose lease expired', async () => {
+  const store = await createStore([{ id: 'a', priority: 0 }]);
+
+  const first = await store.claimNext(LEASE_SECONDS);
+  assert.equal(first.attempts, 1);
+  assert.equal(await store.claimNext(LEASE_SECONDS), null);
+
+  await store.update('a', { lockedUntil: secondsAgo(1) });
+  const retried = await store.claimNext(LEASE_SECONDS);
+  assert.equal(retried.id, 'a');
+  assert.equal(retried.attempts, 2);
+});
+
+test('rank adds one per aging interval waited', () => {
+  const now = Date.now();
+  const job = { priority: 1, createdAt: new Date(now - 250 * 1000).toISOString() };
+  assert.equal(rankOf(job, 120, now), 3);
+  assert.equal(rankOf(job, 60, now), 5);
+});
+
+test('aging interval falls back to the default for invalid settings', () => {
+  assert.equal(getAgingSeconds({}), 120);
+  assert.equal(getAgingSeconds({ JOB_PRIORITY_AGING_SECONDS: '0' }), 120);
+  assert.equal(getAgingSeconds({ JOB_PRIORITY_AGING_SECONDS: '45' }), 45);
+});
@@ -0,0 +1,49 @@
+// Prompt screening (api/moderation.js)
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { screenPrompt } = require('../api/moderation.js');
+
+const BLOCKED = [
+  ['make her naked', 'sexual'],
+  ['make the woman completely nude', 'sexual'],
+  ['nude woman on a beach', 'sexual'],
+  ['she is topless', 'sexual'],
+  ['posing in the nude', 'sexual'],
+  ['remove her clothes', 'sexual'],
+  ['undress him', 'sexual'],
+  ['a sexy photo of a teenager', 'minors'],
+  ['add gore and bloody wounds', 'violence'],
+  ['draw a swastika', 'hate']
+];
+
+const ALLOWED = [
+  'give her a nude lipstick look',
+  "she's wearing nude lipstick",
+  'make her lips nude',
+  'naked eye view of the night sky',
+  'a child flying a kite',
+  'remove the background',
+  ''
+];
+
+for (const [prompt, category] of BLOCKED) {
+  test(`blocks "${prompt}" as ${category}`, () => {
+    const error = screenPrompt(prompt);
+    assert.ok(error);
+    assert.equal(error.code, 'PROMPT_BLOCKED');
+    assert.equal(error.category, category);
+  });
+}
+
+for (const prompt of ALLOWED) {
+  test(`allows "${prompt}"`, () => {
+    assert.equal(screenPrompt(prompt), null);
+  });
+}
+
+test('screens a prompt at the length limit quickly', () => {
+  const startedAt = Date.now();
+  screenPrompt('make her '.repeat(222));
+  screenPrompt('a '.repeat(1000));
+  assert.ok(Date.now() - startedAt < 100);
+});
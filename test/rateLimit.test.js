@@ -0,0 +1,54 @@
+// Fixed-window rate limits (api/rateLimit.js) for requests without a login,
+// which are counted per client IP
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const express = require('express');
+const { createRateLimiter } = require('../api/rateLimit.js');
+const { createMemoryCounterStore } = require('../api/counterStore/memory.js');
+
+// The guest policy allows 20 requests a minute
+const GUEST_LIMIT = 20;
+
+const listen = async (counterStore) => {
+  const app = express();
+  app.use('/api/guest', createRateLimiter({ counterStore })('guest'));
+  app.post('/api/guest/token', (req, res) => res.json({ success: true }));
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  return { server, url: `http://127.0.0.1:${server.address().port}/api/guest/token` };
+};
+
+test('refuses requests over the limit with 429 and Retry-After', async (t) => {
+  const { server, url } = await listen(createMemoryCounterStore());
+  t.after(() => server.close());
+
+  for (let i = 1; i <= GUEST_LIMIT; i++) {
+    const response = await fetch(url, { method: 'POST' });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('RateLimit-Limit'), String(GUEST_LIMIT));
+    assert.equal(response.headers.get('RateLimit-Remaining'), String(GUEST_LIMIT - i));
+  }
+
+  const refused = await fetch(url, { method: 'POST' });
+  assert.equal(refused.status, 429);
+  const retryAfter = Number(refused.headers.get('Retry-After'));
+  assert.ok(retryAfter >= 1 && retryAfter <= 60);
+  const body = await refused.json();
+  assert.equal(body.code, 'RATE_LIMITED');
+  assert.equal(body.retryAfter, retryAfter);
+});
+
+test('lets requests through when the counter store is down', async (t) => {
+  t.mock.method(console, 'error', () => {});
+  const { server, url } = await listen({
+    consume: async () => { throw new Error('counter store unreachable'); }
+  });
+  t.after(() => server.close());
+
+  const response = await fetch(url, { method: 'POST' });
+  assert.equal(response.status, 200);
+});
+
+test('rejects an unknown policy when it is set up', () => {
+  assert.throws(() => createRateLimiter({ counterStore: createMemoryCounterStore() })('unknown'), /Unknown rate limit policy/);
+});
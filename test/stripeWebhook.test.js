@@ -0,0 +1,149 @@
+// Posts the fixtures in fixtures/stripe to the webhook, signed the way
+// Stripe signs them. Supabase is replaced by an in-memory fake that
+// answers every profile lookup and records the RPCs the handlers make.
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const path = require('path');
+const express = require('express');
+const Stripe = require('stripe');
+
+process.env.STRIPE_SECRET_KEY = 'sk_test_fixture';
+process.env.STRIPE_PRICE_BASIC = 'price_fixture_basic';
+process.env.STRIPE_PRICE_PRO = 'price_fixture_pro';
+
+const supabaseAdmin = require('../api/supabaseClient.js');
+const { createStripeWebhookRouter } = require('../api/routes/stripeWebhook.js');
+
+const SECRET = 'whsec_test_fixture';
+const USER_ID = '00000000-0000-0000-0000-000000000001';
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'stripe');
+
+const rpcCalls = [];
+
+const fakeQuery = (result) => {
+  const query = { maybeSingle: async () => result, single: async () => result, then: (resolve, reject) => Promise.resolve(result).then(resolve, reject) };
+  for (const method of ['select', 'insert', 'update', 'eq', 'is', 'in', 'not', 'lte', 'order', 'limit']) query[method] = () => query;
+  return query;
+};
+
+const RPC_RESULTS = {
+  fulfill_checkout_session: ({ p_session_id, p_user_id, p_credits }) => ({ session_id: p_session_id, user_id: p_user_id, credits_granted: p_credits, newly_processed: true }),
+  start_credit_cycle: ({ p_user_id, p_plan, p_allowance }) => ({ id: 'cycle', user_id: p_user_id, plan: p_plan, granted: p_allowance, rolled_over: 0, expired: 0, allowance: p_allowance, newly_processed: true })
+};
+
+supabaseAdmin.from = (table) => fakeQuery(table === 'profiles' ? { data: { id: USER_ID }, error: null } : { data: null, error: null });
+supabaseAdmin.rpc = async (name, params) => {
+  rpcCalls.push({ name, params });
+  const result = RPC_RESULTS[name];
+  return result ? { data: result(params), error: null } : { data: null, error: { message: `unexpected rpc ${name}` } };
+};
+
+const readFixture = (name) => fs.readFileSync(path.join(FIXTURES, `${name}.json`), 'utf8');
+
+let server;
+let baseUrl;
+
+test.before(async () => {
+  const app = express();
+  app.use(createStripeWebhookRouter({ webhookSecret: SECRET }));
+  server = app.listen(0);
+  await new Promise((resolve) => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+test.after(() => server.close());
+
+test.beforeEach(() => {
+  rpcCalls.length = 0;
+});
+
+const post = (payload, signature) => fetch(`${baseUrl}/api/stripe/webhook`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', ...(signature ? { 'Stripe-Signature': signature } : {}) },
+  body: payload
+});
+
+const sign = (payload) => Stripe.webhooks.generateTestHeaderString({ payload, secret: SECRET });
+
+for (const file of fs.readdirSync(FIXTURES).filter((name) => name.endsWith('.json'))) {
+  const name = path.basename(file, '.json');
+
+  test(`${name}: accepts a valid signature`, async () => {
+    const payload = readFixture(name);
+    const response = await post(payload, sign(payload));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { received: true });
+  });
+
+  test(`${name}: rejects a payload changed after signing`, async () => {
+    const payload = readFixture(name);
+    const signature = sign(payload);
+    const tampered = payload.replace(/"customer": "cus_fixture"/, '"customer": "cus_other"');
+    assert.notEqual(tampered, payload);
+
+    const response = await post(tampered, signature);
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'Invalid signature' });
+    assert.equal(rpcCalls.length, 0);
+  });
+}
+
+test('rejects a missing signature', async () => {
+  const response = await post(readFixture('invoice.paid'));
+  assert.equal(response.status, 400);
+});
+
+test('rejects a signature made with another secret', async () => {
+  const payload = readFixture('invoice.paid');
+  const signature = Stripe.webhooks.generateTestHeaderString({ payload, secret: 'whsec_other' });
+  const response = await post(payload, signature);
+  assert.equal(response.status, 400);
+});
+
+test('invoice.paid for a renewal starts the invoice period as a credit cycle', async () => {
+  const payload = readFixture('invoice.paid');
+  const response = await post(payload, sign(payload));
+  assert.equal(response.status, 200);
+
+  assert.deepEqual(rpcCalls.map((call) => call.name), ['start_credit_cycle']);
+  const { params } = rpcCalls[0];
+  assert.equal(params.p_user_id, USER_ID);
+  assert.equal(params.p_plan, 'BASIC');
+  assert.equal(params.p_source, 'renewal');
+  assert.equal(params.p_reference_id, 'in_fixture_renewal');
+  assert.equal(params.p_period_start, new Date(1767225600 * 1000).toISOString());
+  assert.equal(params.p_period_end, new Date(1769904000 * 1000).toISOString());
+});
+
+test('invoice.paid for a plan change starts a cycle for the new plan', async () => {
+  const event = JSON.parse(readFixture('invoice.paid'));
+  Object.assign(event.data.object, {
+    id: 'in_fixture_upgrade',
+    billing_reason: 'subscription_update',
+    lines: {
+      data: [
+        { amount: -500, price: { id: 'price_fixture_basic' }, period: { start: 1768000000, end: 1769904000 } },
+        { amount: 1200, price: { id: 'price_fixture_pro' }, period: { start: 1768000000, end: 1769904000 } }
+      ]
+    }
+  });
+  const payload = JSON.stringify(event);
+  const response = await post(payload, sign(payload));
+  assert.equal(response.status, 200);
+
+  assert.deepEqual(rpcCalls.map((call) => call.name), ['start_credit_cycle']);
+  const { params } = rpcCalls[0];
+  assert.equal(params.p_plan, 'PRO');
+  assert.equal(params.p_source, 'plan_change');
+  assert.equal(params.p_period_start, new Date(1768000000 * 1000).toISOString());
+});
+
+test('invoice.paid for an unknown price fails so Stripe retries', async () => {
+  const event = JSON.parse(readFixture('invoice.paid'));
+  event.data.object.lines.data[0].price.id = 'price_unknown';
+  const payload = JSON.stringify(event);
+  const response = await post(payload, sign(payload));
+  assert.equal(response.status, 500);
+  assert.equal(rpcCalls.length, 0);
+});
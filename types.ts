@@ -1,3 +1,6 @@
+import planCatalog from './plans.json';
+import generationPricing from './pricing.json';
+
 
 export enum PlanTier {
   BASIC = 'BASIC',
@@ -37,7 +40,7 @@ export interface User {
   plan: PlanTier;
   credits: number;
   isAuthenticated: boolean;
-  hasUsedFreeGen: boolean; // Tracks if the one-time free preview is used
+  hasUsedFreeGen: boolean; // Guests: today's free previews are used up (from the server)
   joinedAt: number;
   isActive: boolean; // For admin deactivation
   isEmailVerified: boolean; // Email verification status
@@ -48,12 +51,100 @@ export interface User {
 export interface ImageRecord {
   id: string;
   userId: string; // Link image to user
-  originalImageBase64: string;
-  generatedImageBase64: string | null; // Null if pending
+  originalImageUrl: string; // Signed URL (a data URL until the record is saved)
+  generatedImageUrl: string | null; // Watermarked preview while locked. Null if pending
+  thumbnailUrl?: string | null; // Small gallery copy, also watermarked while locked
   prompt: string;
   timestamp: number;
   isUnlocked: boolean; // True if paid/credit used
   isFreePreview: boolean; // True if generated via free trial
+  generationId?: string | null; // Server-side clean output, fetched via /api/generations/:id/download
+  groupId?: string | null; // Variations generated by the same request share this
+  parentImageId?: string | null; // The image whose output this one edited further
+  presetId?: string | null; // Style preset the image was made with
+  mimeType?: string | null;
+  width?: number | null;
+  height?: number | null;
+  sizeBytes?: number | null;
+}
+
+// Gallery listings carry metadata and a thumbnail, never the full-size images
+export type ImageSummary = Omit<ImageRecord, 'originalImageUrl' | 'generatedImageUrl'>;
+
+export interface ImagePage {
+  images: ImageSummary[];
+  nextCursor: string | null; // Null on the last page
+}
+
+// 'edit' runs the prompt-driven transformation, 'upscale' enlarges 2x/4x without a prompt
+export type GenerationMode = 'edit' | 'upscale';
+
+export interface GenerationVariation {
+  image: string; // Signed URL. A watermarked preview when isPreview is true
+  generationId: string | null;
+  imageId: string | null; // Image record saved by the server (logged-in users only)
+  mimeType: string | null; // Format of the full output (sniffed by the server); previews are always JPEG
+  width: number | null; // Dimensions of the full output (not of the preview)
+  height: number | null;
+}
+
+// Style presets are defined by the server (api/presets.js); prompts are built there
+export interface PresetParam {
+  id: string;
+  label: string;
+  options: { id: string; label: string }[];
+  default: string;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  description: string;
+  params: PresetParam[];
+}
+
+// Generations run as queued jobs; progress is reported while polling
+export interface GenerationProgress {
+  stage: 'queued' | 'generating' | 'saving' | 'done';
+  completed?: number; // Variations finished so far
+  total?: number;
+  queue?: QueueStatus; // Only while the job is queued
+}
+
+export interface QueueStatus {
+  position: number; // 1 = next to be claimed
+  estimatedWaitSeconds: number;
+}
+
+// The top-level image fields mirror the first variation
+// A succeeded job whose outcome is 'no_change' (the model only answered in
+// text, or not at all) has no variations and charges nothing; the client
+// surfaces it as a GenerationError with code NO_CHANGE and the model's guidance.
+export interface GenerationResult extends GenerationVariation {
+  groupId: string | null; // Shared by every variation of one request
+  variations: GenerationVariation[];
+  isPreview: boolean;
+  mode: GenerationMode;
+  scale: number | null; // Upscale factor, null for edits
+  message: string;
+}
+
+// Blocked by our prompt screen or by the provider's safety filters (never charged)
+export type ModerationCode = 'PROMPT_BLOCKED' | 'SAFETY_BLOCKED';
+
+// Requests that end without an image and without a charge (RATE_LIMITED: try again after Retry-After).
+// JOB_TIMEOUT: the client stopped waiting; the job is still running and can be resumed.
+export type GenerationErrorCode = ModerationCode | 'NO_CHANGE' | 'GUEST_QUOTA_EXCEEDED' | 'GUEST_TOKEN_REQUIRED' | 'RATE_LIMITED' | 'JOB_TIMEOUT';
+
+export interface ModerationIncident {
+  id: string;
+  userId: string | null; // null for guests
+  jobId: string | null; // null when blocked before queueing
+  code: ModerationCode;
+  category: string;
+  reason: string | null;
+  prompt: string | null;
+  createdAt: string;
 }
 
 export interface PricingPlan {
@@ -63,7 +154,10 @@ export interface PricingPlan {
   credits: number;
   features: string[];
   isSubscription: boolean;
-  paymentLink: string; // The Stripe URL
+  maxUploadEdge: number; // Longest image edge (px) accepted for uploads on this plan
+  generationsPerMinute: number; // /api/generate rate limit (higher on plans with Faster Processing)
+  queuePriority: number; // Higher is claimed first from the generation queue; guest previews are 0
+  rolloverCap: number; // Unused monthly credits carried into the next period (0: they expire)
 }
 
 export interface SupportTicket {
@@ -80,49 +174,34 @@ export interface SupportTicket {
 }
 
 // INSTRUCTIONS FOR STRIPE CONFIGURATION:
-// 1. Create Payment Links in your Stripe Dashboard for each plan below.
-// 2. Paste the generated URL (starting with 'https://buy.stripe.com/...') into the 'paymentLink' fields below.
-// 3. CRITICAL: In the Stripe Dashboard, for EACH payment link:
-//    - Go to "After payment" settings.
-//    - Select "Redirect customers to your website".
-//    - Enter this URL: https://www.upscaleimageryai.com/#/payment-success
-//    - This ensures users are returned to the app to unlock their credits/features.
-
-export const PLANS: PricingPlan[] = [
-  {
-    id: PlanTier.NONE,
-    name: 'One-Time',
-    price: 3.99,
-    credits: 5, // 5 variations
-    features: ['1 Upload', '5 Prompt Variations', 'High Res Download'],
-    isSubscription: false,
-    paymentLink: 'https://buy.stripe.com/8x28wIc9d1o8bkQagf9oc00' 
-  },
-  {
-    id: PlanTier.BASIC,
-    name: 'Basic',
-    price: 9.99,
-    credits: 25,
-    features: ['25 Edit Credits/mo', 'Priority Support'], // No rollover
-    isSubscription: true,
-    paymentLink: 'https://buy.stripe.com/cNi14gddhc2M4Ws3RR9oc01'
-  },
-  {
-    id: PlanTier.PRO,
-    name: 'Pro',
-    price: 19.99,
-    credits: 50,
-    features: ['50 Edit Credits/mo', 'Roll-over credits', 'Faster Processing'],
-    isSubscription: true,
-    paymentLink: 'https://buy.stripe.com/4gM00c0qvd6QdsY0FF9oc02'
-  },
-  {
-    id: PlanTier.ELITE,
-    name: 'Elite',
-    price: 34.99,
-    credits: 100,
-    features: ['100 Edit Credits/mo', 'Roll-over credits', 'Commercial License'],
-    isSubscription: true,
-    paymentLink: 'https://buy.stripe.com/eVq28k0qv7Mwex23RR9oc03'
-  }
-];
+// 1. Create a Product and Price in your Stripe Dashboard for each plan in plans.json
+//    (one-time price for NONE, monthly recurring prices for the subscriptions).
+// 2. Set STRIPE_PRICE_<TIER> on the server to each plan's Stripe price id
+//    (comma-separate several ids if a plan has more than one price; the first
+//    one is used for new checkouts).
+// 3. Set APP_URL on the server (e.g. https://www.upscaleimageryai.com) so Checkout
+//    returns customers to /#/payment-success.
+//
+// Checkout Sessions are created server-side by /api/checkout, so the browser
+// only chooses a plan id and never what Stripe charges or who gets credited.
+// plans.json is shared with the server (api/plans.js). Edit plans there, not here.
+
+export const PLANS: PricingPlan[] = planCatalog.map((plan) => ({
+  ...plan,
+  id: plan.id as PlanTier
+}));
+
+// Credit cost per generation mode. pricing.json is shared with the server (api/pricing.js).
+export const EDIT_CREDIT_COST: number = generationPricing.edit;
+
+export const UPSCALE_CREDIT_COSTS: Record<number, number> = Object.fromEntries(
+  Object.entries(generationPricing.upscale).map(([scale, credits]) => [Number(scale), credits])
+);
+
+export const UPSCALE_FACTORS: number[] = Object.keys(UPSCALE_CREDIT_COSTS).map(Number);
+
+// Most variations one edit request may ask for (each is charged EDIT_CREDIT_COST)
+export const MAX_VARIATIONS: number = generationPricing.maxVariations;
+
+// Longest prompt /api/generate accepts (MAX_PROMPT_LENGTH in api/moderation.js)
+export const MAX_PROMPT_LENGTH = 2000;